@@ -1,17 +1,34 @@
 import Emitter from "emittery";
-import { initTRPC } from "@trpc/server";
+import { TRPCError, initTRPC } from "@trpc/server";
 import { observable } from "@trpc/server/observable";
 import { z } from "zod";
+import { DataChannelRequestContext } from "../data-channel-handler.js";
+import { TrackedData, tracked } from "../internals/tracked.js";
 
-const t = initTRPC.create({ allowOutsideOfServer: true });
+const t = initTRPC
+  .context<{ namespace?: string } & DataChannelRequestContext>()
+  .create({ allowOutsideOfServer: true });
 
 const ee = new Emitter();
+/**
+ * Emits the input of each `testSlowQuery` that's aborted before it finishes
+ */
+export const slowQueryAborts = new Emitter<{ aborted: { delay: number } }>();
+/**
+ * Emits the number of chunks each `testStreamQuery` yielded, once its generator
+ * finishes, whether it returned, threw or was stopped
+ */
+export const streamQueryFinishes = new Emitter<{ finished: number }>();
 const Message = z.object({
   id: z.string(),
   channel: z.string(),
   content: z.string(),
 });
 export type Message = z.infer<typeof Message>;
+/**
+ * Every message added, by channel, for tracked subscriptions to replay
+ */
+const messageLog = new Map<string, Message[]>();
 
 export const appRouter = t.router({
   testQuery: t.procedure
@@ -21,6 +38,60 @@ export const appRouter = t.router({
         hello: input.id,
       };
     }),
+  testLargeQuery: t.procedure
+    .input(z.object({ length: z.number() }))
+    .query(({ input }) => {
+      return "x".repeat(input.length);
+    }),
+  testSlowQuery: t.procedure
+    .input(z.object({ delay: z.number() }))
+    .query(async ({ input, ctx }) => {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, input.delay);
+        ctx.signal?.addEventListener("abort", () => {
+          clearTimeout(timer);
+          void slowQueryAborts.emit("aborted", input);
+          reject(ctx.signal?.reason);
+        });
+      });
+      return input.delay;
+    }),
+  testStreamQuery: t.procedure
+    .input(
+      z.object({
+        count: z.number(),
+        delay: z.number().optional(),
+        failAt: z.number().optional(),
+      })
+    )
+    .query(async function* ({ input }) {
+      let i = 0;
+      try {
+        for (; i < input.count; i++) {
+          if (input.delay) {
+            await new Promise((resolve) => setTimeout(resolve, input.delay));
+          }
+          if (i === input.failAt) {
+            throw new TRPCError({
+              code: "INTERNAL_SERVER_ERROR",
+              message: `Failed at chunk ${i}`,
+            });
+          }
+          yield i;
+        }
+      } finally {
+        void streamQueryFinishes.emit("finished", i);
+      }
+    }),
+  testBinaryQuery: t.procedure
+    .input(z.object({ length: z.number() }))
+    .query(({ input }) => {
+      return {
+        bytes: new Uint8Array(input.length).fill(1),
+        date: new Date(0),
+        map: new Map([["key", "value"]]),
+      };
+    }),
   testSubscription: t.procedure
     .input(Message.pick({ channel: true }))
     .subscription(({ input }) => {
@@ -34,9 +105,44 @@ export const appRouter = t.router({
         };
       });
     }),
+  testTrackedSubscription: t.procedure
+    .input(
+      Message.pick({ channel: true }).extend({
+        lastEventId: z.string().nullish(),
+      })
+    )
+    .subscription(({ input }) => {
+      return observable<TrackedData<Message>>((emit) => {
+        if (input.lastEventId) {
+          // replay the messages added since the last one the client received
+          const log = messageLog.get(input.channel) ?? [];
+          const index = log.findIndex(({ id }) => id === input.lastEventId);
+          for (const message of log.slice(index + 1)) {
+            emit.next(tracked(message.id, message));
+          }
+        }
+        const unsub = ee.on(input.channel, (data: Message) => {
+          emit.next(tracked(data.id, data));
+        });
+
+        return () => {
+          unsub();
+        };
+      });
+    }),
+  testSlowMutation: t.procedure
+    .input(z.object({ delay: z.number() }))
+    .mutation(async ({ input }) => {
+      await new Promise((resolve) => setTimeout(resolve, input.delay));
+      return input.delay;
+    }),
   addToTestSubscription: t.procedure
     .input(Message)
     .mutation(async ({ input }) => {
+      messageLog.set(input.channel, [
+        ...(messageLog.get(input.channel) ?? []),
+        input,
+      ]);
       await ee.emit(input.channel, input);
 
       return input;
@@ -1,3 +1,6 @@
+import { msgpackCodec } from "../codecs.js";
+import { NodeDataChannel } from "../data-channel-adapters.js";
+
 export function waitForChannel(peer: RTCPeerConnection, label: string) {
   return new Promise<RTCDataChannel>((resolve) => {
     const handler = (ev: RTCDataChannelEvent) => {
@@ -73,3 +76,121 @@ export async function establishConnection({
     to: rx,
   };
 }
+
+/**
+ * A message from a handler, as sent over the data channel
+ */
+export interface RawHandlerMessage {
+  id: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: { type: string; data?: unknown };
+  error?: { message: string; code: number; data: { code: string } };
+}
+
+/**
+ * Starts a session with the handler on the other end of `dataChannel`, without
+ * a client, so tests can send it raw messages. Collects the handler's messages,
+ * including its `hello`.
+ */
+export function startRawSession(
+  dataChannel: RTCDataChannel,
+  {
+    version = 1,
+    features = ["batching"],
+    codecs = ["json"],
+  }: { version?: number; features?: string[]; codecs?: string[] } = {}
+) {
+  const messages: RawHandlerMessage[] = [];
+  const waiting = new Set<() => void>();
+
+  dataChannel.binaryType = "arraybuffer";
+  dataChannel.addEventListener("message", ({ data }: MessageEvent) => {
+    messages.push(
+      (typeof data === "string"
+        ? JSON.parse(data)
+        : msgpackCodec.decode(new Uint8Array(data))) as RawHandlerMessage
+    );
+    waiting.forEach((check) => check());
+  });
+  dataChannel.send(
+    JSON.stringify({
+      id: null,
+      method: "hello",
+      params: { version, features, codecs },
+    })
+  );
+
+  return {
+    messages,
+    /**
+     * Resolves with the handler's messages once it has sent `count`
+     */
+    received(count: number) {
+      return new Promise<RawHandlerMessage[]>((resolve) => {
+        const check = () => {
+          if (messages.length >= count) {
+            waiting.delete(check);
+            resolve(messages);
+          }
+        };
+        waiting.add(check);
+        check();
+      });
+    },
+  };
+}
+
+/**
+ * A node-datachannel `DataChannel` backed by `dataChannel`, which records the
+ * calls made to it and can trigger its callbacks
+ */
+export function createFakeNodeDataChannel(dataChannel: RTCDataChannel) {
+  const sent: { method: string; data: string | Uint8Array }[] = [];
+  let onError = (error: string) => {};
+  let onBufferedAmountLow = () => {};
+  let threshold = 0;
+
+  const channel: NodeDataChannel = {
+    getLabel: () => dataChannel.label,
+    getId: () => dataChannel.id ?? -1,
+    getProtocol: () => dataChannel.protocol,
+    isOpen: () => dataChannel.readyState === "open",
+    sendMessage(message) {
+      sent.push({ method: "sendMessage", data: message });
+      dataChannel.send(message);
+      return true;
+    },
+    sendMessageBinary(buffer) {
+      sent.push({ method: "sendMessageBinary", data: buffer });
+      dataChannel.send(buffer);
+      return true;
+    },
+    bufferedAmount: () => dataChannel.bufferedAmount,
+    setBufferedAmountLowThreshold(value) {
+      threshold = value;
+    },
+    close: () => dataChannel.close(),
+    onOpen: (cb) => dataChannel.addEventListener("open", cb),
+    onClosed: (cb) => dataChannel.addEventListener("close", cb),
+    onError: (cb) => (onError = cb),
+    onBufferedAmountLow: (cb) => (onBufferedAmountLow = cb),
+    onMessage(cb) {
+      dataChannel.binaryType = "arraybuffer";
+      dataChannel.addEventListener("message", ({ data }) => cb(data));
+    },
+  };
+
+  return {
+    channel,
+    /**
+     * the messages passed to `sendMessage` and `sendMessageBinary`
+     */
+    sent,
+    get threshold() {
+      return threshold;
+    },
+    error: (error: string) => onError(error),
+    bufferedAmountLow: () => onBufferedAmountLow(),
+  };
+}
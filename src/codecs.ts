@@ -0,0 +1,55 @@
+import { decodeMsgpack, encodeMsgpack } from "./internals/msgpack.js";
+
+export interface DataChannelCodecDecodeOptions {
+  /**
+   * The deepest nesting of objects and arrays to decode. Codecs whose decoders
+   * recurse should throw beyond it, rather than overflow the stack.
+   */
+  maxDepth?: number;
+}
+
+/**
+ * Converts messages to and from the frames sent over a data channel
+ */
+export interface DataChannelCodec {
+  /**
+   * Identifies the codec whilst peers negotiate which codec to use
+   */
+  name: string;
+  /**
+   * Codecs that return a `Uint8Array` are sent as binary frames
+   */
+  encode(value: unknown): string | Uint8Array;
+  decode(
+    data: string | Uint8Array,
+    opts?: DataChannelCodecDecodeOptions
+  ): unknown;
+}
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Sends messages as JSON text frames. Every peer supports this codec, and it's
+ * used until peers have negotiated another.
+ */
+export const jsonCodec: DataChannelCodec = {
+  name: "json",
+  encode: (value) => JSON.stringify(value),
+  decode: (data) =>
+    JSON.parse(typeof data === "string" ? data : textDecoder.decode(data)),
+};
+
+/**
+ * Sends messages as MessagePack binary frames. `Uint8Array`, `Date`, `Map` and
+ * `Set` values are preserved without a tRPC transformer.
+ */
+export const msgpackCodec: DataChannelCodec = {
+  name: "msgpack",
+  encode: (value) => encodeMsgpack(value),
+  decode: (data, opts) => {
+    if (typeof data === "string") {
+      throw new TypeError("MessagePack messages must be sent as binary frames");
+    }
+    return decodeMsgpack(data, opts?.maxDepth);
+  },
+};
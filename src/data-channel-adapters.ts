@@ -0,0 +1,191 @@
+import { DataChannelLike } from "./data-channel-like.js";
+import { createErrorEvent, forwardEvent } from "./internals/forwardEvent.js";
+
+/**
+ * The subset of a [node-datachannel](https://github.com/murat-dogan/node-datachannel)
+ * `DataChannel` that `fromNodeDataChannel` uses
+ */
+export interface NodeDataChannel {
+  getLabel(): string;
+  getId(): number;
+  getProtocol(): string;
+  isOpen(): boolean;
+  sendMessage(message: string): boolean;
+  sendMessageBinary(buffer: Uint8Array): boolean;
+  bufferedAmount(): number;
+  setBufferedAmountLowThreshold(threshold: number): void;
+  close(): void;
+  onOpen(cb: () => void): void;
+  onClosed(cb: () => void): void;
+  onError(cb: (error: string) => void): void;
+  onBufferedAmountLow(cb: () => void): void;
+  onMessage(
+    cb: (message: string | ArrayBuffer | ArrayBufferView) => void
+  ): void;
+}
+
+/**
+ * The subset of a [wrtc](https://github.com/node-webrtc/node-webrtc)
+ * `RTCDataChannel` that `fromWrtcDataChannel` uses
+ */
+export interface WrtcDataChannel
+  extends Omit<DataChannelLike, "addEventListener" | "removeEventListener"> {
+  addEventListener(type: string, listener: (ev: any) => void): void;
+}
+
+function toArrayBuffer(data: ArrayBuffer | ArrayBufferView) {
+  return ArrayBuffer.isView(data)
+    ? data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)
+    : data;
+}
+
+class NodeDataChannelAdapter extends EventTarget implements DataChannelLike {
+  readyState: RTCDataChannelState;
+  // binary messages always arrive as `ArrayBuffer`s
+  binaryType: BinaryType = "arraybuffer";
+  private threshold = 0;
+
+  constructor(private readonly channel: NodeDataChannel) {
+    super();
+    this.readyState = channel.isOpen() ? "open" : "connecting";
+    channel.onOpen(() => {
+      this.readyState = "open";
+      this.dispatchEvent(new Event("open"));
+    });
+    channel.onClosed(() => {
+      this.readyState = "closed";
+      this.dispatchEvent(new Event("close"));
+    });
+    channel.onError((error) => {
+      this.dispatchEvent(createErrorEvent(error));
+    });
+    channel.onBufferedAmountLow(() => {
+      this.dispatchEvent(new Event("bufferedamountlow"));
+    });
+    channel.onMessage((message) => {
+      this.dispatchEvent(
+        new MessageEvent("message", {
+          data: typeof message === "string" ? message : toArrayBuffer(message),
+        })
+      );
+    });
+  }
+
+  get label() {
+    return this.channel.getLabel();
+  }
+
+  get protocol() {
+    return this.channel.getProtocol();
+  }
+
+  get id() {
+    return this.channel.getId();
+  }
+
+  get bufferedAmount() {
+    return this.channel.bufferedAmount();
+  }
+
+  get bufferedAmountLowThreshold() {
+    return this.threshold;
+  }
+
+  set bufferedAmountLowThreshold(value: number) {
+    this.threshold = value;
+    this.channel.setBufferedAmountLowThreshold(value);
+  }
+
+  send(data: string | ArrayBufferView) {
+    if (typeof data === "string") {
+      this.channel.sendMessage(data);
+    } else {
+      this.channel.sendMessageBinary(
+        new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+      );
+    }
+  }
+
+  close() {
+    if (this.readyState === "open" || this.readyState === "connecting") {
+      this.readyState = "closing";
+    }
+    this.channel.close();
+  }
+}
+
+class WrtcDataChannelAdapter extends EventTarget implements DataChannelLike {
+  constructor(private readonly channel: WrtcDataChannel) {
+    super();
+    for (const type of ["open", "close", "error", "bufferedamountlow"]) {
+      channel.addEventListener(type, (event: Event) => {
+        this.dispatchEvent(forwardEvent(event));
+      });
+    }
+    channel.addEventListener("message", ({ data }: MessageEvent) => {
+      this.dispatchEvent(new MessageEvent("message", { data }));
+    });
+  }
+
+  get label() {
+    return this.channel.label;
+  }
+
+  get protocol() {
+    return this.channel.protocol;
+  }
+
+  get id() {
+    return this.channel.id;
+  }
+
+  get readyState() {
+    return this.channel.readyState;
+  }
+
+  get bufferedAmount() {
+    return this.channel.bufferedAmount;
+  }
+
+  get bufferedAmountLowThreshold() {
+    return this.channel.bufferedAmountLowThreshold;
+  }
+
+  set bufferedAmountLowThreshold(value: number) {
+    this.channel.bufferedAmountLowThreshold = value;
+  }
+
+  get binaryType() {
+    return this.channel.binaryType;
+  }
+
+  set binaryType(value: BinaryType) {
+    this.channel.binaryType = value;
+  }
+
+  send(data: string | ArrayBufferView) {
+    this.channel.send(data);
+  }
+
+  close() {
+    this.channel.close();
+  }
+}
+
+/**
+ * Adapts a node-datachannel `DataChannel`, whose events are callbacks, for use
+ * with clients and handlers. The adapter replaces the data channel's `onOpen`,
+ * `onClosed`, `onError`, `onBufferedAmountLow` and `onMessage` callbacks, so
+ * listen to the adapter's events instead.
+ */
+export function fromNodeDataChannel(channel: NodeDataChannel): DataChannelLike {
+  return new NodeDataChannelAdapter(channel);
+}
+
+/**
+ * Adapts a wrtc `RTCDataChannel`, whose `addEventListener` ignores options such
+ * as `once`, for use with clients and handlers
+ */
+export function fromWrtcDataChannel(channel: WrtcDataChannel): DataChannelLike {
+  return new WrtcDataChannelAdapter(channel);
+}
@@ -1,8 +1,10 @@
 import {
+  AnyProcedure,
   AnyRouter,
   ProcedureType,
   callProcedure,
   inferRouterContext,
+  inferRouterMeta,
   TRPCError,
   getTRPCErrorFromUnknown,
   CombinedDataTransformer,
@@ -10,43 +12,111 @@ import {
 import { Unsubscribable, isObservable } from "@trpc/server/observable";
 import {
   JSONRPC2,
-  TRPCClientOutgoingMessage,
-  TRPCReconnectNotification,
+  TRPCRequestMessage,
   TRPCResponseMessage,
 } from "@trpc/server/rpc";
 import { transformTRPCResponse } from "./internals/transformTRPCResponse.js";
+import {
+  Frame,
+  FramingOptions,
+  createFramer,
+  DEFAULT_MAX_MESSAGE_SIZE,
+  frameByteLength,
+  toFrame,
+} from "./internals/framing.js";
+import { getMultiplexer, multiplexOverhead } from "./internals/multiplex.js";
+import { RateLimit, createRateLimiter } from "./internals/rateLimiter.js";
+import { isTrackedData } from "./internals/tracked.js";
+import { getDataChannelError } from "./internals/dataChannelError.js";
+import {
+  DataChannelInstrumentation,
+  DataChannelTracer,
+  createInstrumenter,
+} from "./internals/instrumentation.js";
+import { STREAM_WINDOW, isAsyncIterable } from "./internals/resultStream.js";
+import {
+  DataChannelEncryptionOptions,
+  ENCRYPTION_OVERHEAD,
+  createEncryptedDataChannel,
+} from "./internals/encryption.js";
+import {
+  BackpressureOptions,
+  BackpressurePolicy,
+  DEFAULT_HIGH_WATER_MARK,
+  createSendQueue,
+} from "./internals/sendQueue.js";
+import {
+  DataChannelClientOutgoingMessage,
+  DataChannelFeature,
+  PROTOCOL_VERSION,
+  SUPPORTED_FEATURES,
+  TRPCHelloRequest,
+  TRPCHelloResponse,
+} from "./internals/envelopes.js";
+import { DataChannelCodec, jsonCodec } from "./codecs.js";
+import {
+  TRPCDataChannelMessageTooLargeError,
+  TRPCDataChannelVersionMismatchError,
+} from "./errors.js";
+import { DataChannelLike } from "./data-channel-like.js";
 
 // converted from https://github.com/trpc/trpc/blob/9c2df391fea0ff735d0a6c4c0bbf6c1f7c2cbecd/packages/server/src/adapters/ws.ts
 
 /* istanbul ignore next -- @preserve */
 function assertIsObject(obj: unknown): asserts obj is Record<string, unknown> {
   if (typeof obj !== "object" || Array.isArray(obj) || !obj) {
-    throw new Error("Not an object");
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Not an object" });
   }
 }
 /* istanbul ignore next -- @preserve */
 function assertIsProcedureType(obj: unknown): asserts obj is ProcedureType {
   if (obj !== "query" && obj !== "subscription" && obj !== "mutation") {
-    throw new Error("Invalid procedure type");
+    throw new TRPCError({
+      code: "METHOD_NOT_SUPPORTED",
+      message: `Unknown method ${JSON.stringify(obj)}`,
+    });
   }
 }
+function isRequestId(obj: unknown): obj is number | string | null {
+  return (
+    obj === null ||
+    typeof obj === "string" ||
+    (typeof obj === "number" && Number.isFinite(obj))
+  );
+}
 /* istanbul ignore next -- @preserve */
 function assertIsRequestId(
   obj: unknown
 ): asserts obj is number | string | null {
-  if (
-    obj !== null &&
-    typeof obj === "number" &&
-    isNaN(obj) &&
-    typeof obj !== "string"
-  ) {
-    throw new Error("Invalid request id");
+  if (!isRequestId(obj)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid request id" });
   }
 }
 /* istanbul ignore next -- @preserve */
 function assertIsString(obj: unknown): asserts obj is string {
   if (typeof obj !== "string") {
-    throw new Error("Invalid string");
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid string" });
+  }
+}
+/* istanbul ignore next -- @preserve */
+function assertIsNumber(obj: unknown): asserts obj is number {
+  if (typeof obj !== "number") {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid number" });
+  }
+}
+/* istanbul ignore next -- @preserve */
+function assertIsBoolean(obj: unknown): asserts obj is boolean {
+  if (typeof obj !== "boolean") {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid boolean" });
+  }
+}
+/* istanbul ignore next -- @preserve */
+function assertIsStringArray(obj: unknown): asserts obj is string[] {
+  if (!Array.isArray(obj) || !obj.every((item) => typeof item === "string")) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Invalid string array",
+    });
   }
 }
 /* istanbul ignore next -- @preserve */
@@ -54,30 +124,159 @@ function assertIsJSONRPC2OrUndefined(
   obj: unknown
 ): asserts obj is "2.0" | undefined {
   if (typeof obj !== "undefined" && obj !== "2.0") {
-    throw new Error("Must be JSONRPC 2.0");
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Must be JSONRPC 2.0",
+    });
+  }
+}
+/**
+ * Walks objects and arrays without recursion, so deeply nested input can't
+ * overflow the stack
+ */
+function assertMaxDepth(obj: unknown, maxDepth: number) {
+  const stack: [unknown, number][] = [[obj, 1]];
+  while (stack.length > 0) {
+    const [value, depth] = stack.pop()!;
+    if (
+      typeof value !== "object" ||
+      value === null ||
+      ArrayBuffer.isView(value)
+    ) {
+      continue;
+    }
+    if (depth > maxDepth) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `Input is nested deeper than the maxDepth of ${maxDepth}`,
+      });
+    }
+    for (const child of Object.values(value)) {
+      stack.push([child, depth + 1]);
+    }
   }
 }
+
+export const DEFAULT_MAX_DEPTH = 64;
+
+export const DEFAULT_MAX_PATH_LENGTH = 256;
+
+export interface ParseMessageOptions {
+  /**
+   * The deepest nesting of objects and arrays allowed in a request's input.
+   * Defaults to `64`.
+   */
+  maxDepth?: number;
+  /**
+   * The longest procedure path allowed, in characters. Defaults to `256`.
+   */
+  maxPathLength?: number;
+}
+
+/**
+ * Validates a decoded message from a client, throwing a `TRPCError` if it's
+ * malformed. Request inputs are deserialized by `transformer`.
+ */
 export function parseMessage(
   obj: unknown,
-  transformer: CombinedDataTransformer
-): TRPCClientOutgoingMessage {
+  transformer: CombinedDataTransformer,
+  opts: ParseMessageOptions = {}
+): DataChannelClientOutgoingMessage {
+  const maxDepth = opts.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const maxPathLength = opts.maxPathLength ?? DEFAULT_MAX_PATH_LENGTH;
   assertIsObject(obj);
   const { method, params, id, jsonrpc } = obj;
   assertIsRequestId(id);
   assertIsJSONRPC2OrUndefined(jsonrpc);
-  if (method === "subscription.stop") {
+  if (method === "subscription.stop" || method === "request.cancel") {
     return {
       id,
       jsonrpc,
       method,
     };
   }
+  if (method === "stream.pull") {
+    if (id === null) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "`id` is required" });
+    }
+    assertIsObject(params);
+    const { count } = params;
+    assertIsNumber(count);
+    if (!Number.isInteger(count) || count < 1) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "`count` must be a positive integer",
+      });
+    }
+    return {
+      id,
+      jsonrpc,
+      method,
+      params: { count },
+    };
+  }
+  if (method === "hello") {
+    assertIsObject(params);
+    const { version, features, codecs, auth } = params;
+    assertIsNumber(version);
+    assertIsStringArray(features);
+    assertIsStringArray(codecs);
+    assertMaxDepth(auth, maxDepth);
+    return {
+      id: null,
+      jsonrpc,
+      method,
+      params: {
+        version,
+        features,
+        codecs,
+        auth,
+      },
+    };
+  }
   assertIsProcedureType(method);
+  if (id === null) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "`id` is required" });
+  }
   assertIsObject(params);
 
-  const { input: rawInput, path } = params;
+  const { input: rawInput, path, lastEventId, reliable, traceparent } = params;
   assertIsString(path);
-  const input = transformer.input.deserialize(rawInput);
+  if (lastEventId !== undefined) {
+    assertIsString(lastEventId);
+  }
+  if (reliable !== undefined) {
+    assertIsBoolean(reliable);
+  }
+  if (traceparent !== undefined) {
+    assertIsString(traceparent);
+  }
+  if (path.length > maxPathLength) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Path is longer than the maxPathLength of ${maxPathLength}`,
+    });
+  }
+  assertMaxDepth(rawInput, maxDepth);
+  let input: unknown;
+  try {
+    input = transformer.input.deserialize(rawInput);
+  } catch (cause) {
+    throw new TRPCError({
+      code: "PARSE_ERROR",
+      message: "Input could not be deserialized",
+      cause,
+    });
+  }
+  if (
+    method === "subscription" &&
+    lastEventId !== undefined &&
+    (input === undefined ||
+      (typeof input === "object" && input !== null && !Array.isArray(input)))
+  ) {
+    // procedures read it from their input, so they can replay missed events
+    input = { ...input, lastEventId };
+  }
   return {
     id,
     jsonrpc,
@@ -85,42 +284,358 @@ export function parseMessage(
     params: {
       input,
       path,
+      ...(reliable !== undefined && { reliable }),
+      ...(traceparent !== undefined && { traceparent }),
     },
   };
 }
 
+/**
+ * The id of a message that couldn't be parsed, if it has a valid one
+ */
+function getRequestId(obj: unknown) {
+  if (typeof obj === "object" && obj !== null && "id" in obj) {
+    return isRequestId(obj.id) ? obj.id : null;
+  }
+  return null;
+}
+
+/**
+ * Matches the start of a request, as clients encode it
+ */
+const REQUEST_START =
+  /\{"id":(\d+|"(?:[^"\\]|\\.)*"),(?:"jsonrpc":"2\.0",)?"method":"(?:query|mutation|subscription)"/y;
+
+/**
+ * The ids of the requests in a JSON message that couldn't be decoded, so they
+ * can be failed rather than left to time out. Only objects at the top level of
+ * the message, or of its batch, are requests, rather than their inputs.
+ */
+function recoverRequestIds(payload: Frame) {
+  if (typeof payload !== "string") {
+    return [];
+  }
+  const ids = new Set<number | string>();
+  const requestDepth = payload.startsWith("[") ? 1 : 0;
+  let depth = 0;
+  let inString = false;
+  for (let i = 0; i < payload.length; i++) {
+    const char = payload[i];
+    if (inString) {
+      if (char === "\\") {
+        // skips the escaped character
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      if (char === "{" && depth === requestDepth) {
+        REQUEST_START.lastIndex = i;
+        const id = REQUEST_START.exec(payload)?.[1];
+        try {
+          if (id !== undefined) {
+            ids.add(JSON.parse(id));
+          }
+        } catch {
+          // a truncated string id
+        }
+      }
+      depth++;
+    } else if (char === "}" || char === "]") {
+      depth--;
+    }
+  }
+  return [...ids];
+}
+
+/**
+ * Describes the data channel a connection was made over
+ */
+export interface DataChannelConnectionInfo {
+  label: string;
+  protocol: string;
+  id: number | null;
+  /**
+   * The namespace the handler serves, see `DataChannelHandlerOptions.namespace`
+   */
+  namespace?: string;
+  /**
+   * Sent by the client during the handshake, see `DataChannelClientOptions.auth`
+   */
+  auth?: unknown;
+}
+
+/**
+ * Identifies the connection that a context is created for, or an error occurred on
+ */
+export interface CreateDataChannelContextOptions {
+  dataChannel: DataChannelLike;
+  peerConnection?: RTCPeerConnection;
+  info: DataChannelConnectionInfo;
+}
+
+/**
+ * Added to the context of each query and mutation, so procedures can stop
+ * working once the client is no longer waiting. Declare it in the router's
+ * context with `initTRPC.context<Context & DataChannelRequestContext>()`.
+ */
+export interface DataChannelRequestContext {
+  /**
+   * Aborted when the client cancels or times out the request, or disconnects.
+   * Undefined for subscriptions, which are stopped by their observable's teardown.
+   */
+  signal?: AbortSignal;
+}
+
 /**
  * Data channel "server" handler
  */
-export type DataChannelHandlerOptions<TRouter extends AnyRouter> = {
-  onError?: (opts: {
-    error: TRPCError;
-    type: ProcedureType | "unknown";
-    path: string | undefined;
-    input: unknown;
-    ctx: undefined | inferRouterContext<TRouter>;
-  }) => void;
-  createContext?: () =>
-    | inferRouterContext<TRouter>
-    | Promise<inferRouterContext<TRouter>>;
+export interface DataChannelHandlerOptions<TRouter extends AnyRouter>
+  extends FramingOptions,
+    BackpressureOptions,
+    ParseMessageOptions {
+  onError?: (
+    opts: {
+      error: TRPCError;
+      type: ProcedureType | "unknown";
+      path: string | undefined;
+      input: unknown;
+      ctx: undefined | inferRouterContext<TRouter>;
+    } & CreateDataChannelContextOptions
+  ) => void;
+  createContext?: (
+    opts: CreateDataChannelContextOptions
+  ) => inferRouterContext<TRouter> | Promise<inferRouterContext<TRouter>>;
+  /**
+   * What to do with subscription data when the send queue is full, either for
+   * all subscriptions or per subscription. Defaults to `"error"`.
+   */
+  backpressurePolicy?:
+    | BackpressurePolicy
+    | ((opts: {
+        path: string;
+        input: unknown;
+        ctx: undefined | inferRouterContext<TRouter>;
+      }) => BackpressurePolicy);
+  /**
+   * Codecs that clients may select, in addition to `jsonCodec` which is always
+   * supported
+   */
+  codecs?: DataChannelCodec[];
+  /**
+   * The most messages a client may batch together. The procedure calls of larger
+   * batches are rejected with `BAD_REQUEST`. Defaults to no limit.
+   */
+  maxBatchSize?: number;
+  /**
+   * The most queries and mutations that may be in progress at once. Calls beyond
+   * it are rejected with `TOO_MANY_REQUESTS`. Cancelled calls count until their
+   * procedure returns. Defaults to no limit.
+   */
+  maxConcurrentRequests?: number;
+  /**
+   * The most subscriptions that may be active at once. Subscriptions beyond it
+   * are rejected with `TOO_MANY_REQUESTS`. Defaults to no limit.
+   */
+  maxSubscriptions?: number;
+  /**
+   * Limits the calls each connection may make, across all procedures. Calls
+   * beyond it are rejected with `TOO_MANY_REQUESTS`.
+   */
+  rateLimit?: RateLimit;
+  /**
+   * Limits the calls each connection may make to each procedure. Calls beyond it
+   * are rejected with `TOO_MANY_REQUESTS`. Defaults to the procedure's
+   * `meta.rateLimit`.
+   */
+  procedureRateLimit?: (opts: {
+    path: string;
+    type: ProcedureType;
+    meta: inferRouterMeta<TRouter> | undefined;
+  }) => RateLimit | undefined;
   router: TRouter;
-  dataChannel: RTCDataChannel;
-};
+  dataChannel: DataChannelLike;
+  /**
+   * Serves only the clients of the same namespace, so several routers can share
+   * one data channel. Every handler and client sharing a data channel must have
+   * a namespace.
+   */
+  namespace?: string;
+  /**
+   * Encrypts and authenticates each frame end-to-end, for data channels relayed
+   * by peers that terminate DTLS. Clients must encrypt with matching options.
+   */
+  encryption?: DataChannelEncryptionOptions;
+  /**
+   * A second data channel, created with `ordered: false` and `maxRetransmits`
+   * or `maxPacketLifeTime`, over which the data of subscriptions that don't need
+   * reliable delivery is sent. Subscriptions opt out of reliable delivery with
+   * `meta.reliable` or the client's `op.context.reliable` set to `false`, once
+   * the client has an unreliable data channel too.
+   */
+  unreliableDataChannel?: DataChannelLike;
+  /**
+   * Called as requests are handled, for structured logging and metrics
+   */
+  instrumentation?: DataChannelInstrumentation;
+  /**
+   * Traces each request handled, linking its span to the client's
+   */
+  tracer?: DataChannelTracer;
+  /**
+   * The peer connection that owns `dataChannel`, which is passed to
+   * `createContext` and `onError`
+   */
+  peerConnection?: RTCPeerConnection;
+}
+
+/**
+ * A snapshot of the work a handler is doing
+ */
+export interface DataChannelHandlerStats {
+  /**
+   * The number of active subscriptions
+   */
+  readonly subscriptions: number;
+  /**
+   * The number of queries and mutations in progress
+   */
+  readonly inflightRequests: number;
+}
 
 export function applyDataChannelHandler<TRouter extends AnyRouter>(
   opts: DataChannelHandlerOptions<TRouter>
 ) {
-  const { dataChannel, createContext, router } = opts;
+  const { createContext, router, namespace, encryption } = opts;
+  if (encryption && opts.unreliableDataChannel) {
+    throw new TypeError(
+      "Encryption isn't supported with an unreliableDataChannel, whose frames may be lost or reordered"
+    );
+  }
+  // frames of other namespaces are left to their own handlers
+  const toNamespaced = (dc: DataChannelLike) =>
+    namespace === undefined
+      ? dc
+      : getMultiplexer(dc).channel({
+          inbound: namespace,
+          outbound: namespace,
+        });
+  const namespaced = toNamespaced(opts.dataChannel);
+  const unreliableDataChannel =
+    opts.unreliableDataChannel && toNamespaced(opts.unreliableDataChannel);
+  const dataChannel = encryption
+    ? createEncryptedDataChannel(namespaced, "handler", encryption)
+    : namespaced;
+  // leave room for the namespace's tag and encryption, so frames still fit the data channel
+  const framingOpts = {
+    ...opts,
+    maxMessageSize:
+      (opts.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE) -
+      (namespace === undefined ? 0 : multiplexOverhead(namespace)) -
+      (encryption ? ENCRYPTION_OVERHEAD : 0),
+  };
 
   const { transformer } = router._def._config;
 
+  // binary codecs are decoded from `ArrayBuffer`, rather than `Blob`
+  dataChannel.binaryType = "arraybuffer";
+
+  const clientSubscriptions = new Map<number | string, Unsubscribable>();
+  /**
+   * queries and mutations that are being worked on, which the client may cancel.
+   * They're removed once their procedure returns, even if cancelled.
+   */
+  const inflightRequests = new Map<number | string, AbortController>();
+  /**
+   * grants more credit to the results being streamed, see `stream.pull`
+   */
+  const streamPulls = new Map<number | string, (count: number) => void>();
+  /**
+   * messages that are being handled, which `drain` waits for
+   */
+  const handling = new Set<Promise<void>>();
+  let draining = false;
+  let disposed = false;
+  /**
+   * removes the listeners that `onOpen` added, stopping subscriptions and
+   * abandoning in-flight requests
+   */
+  let detach = () => {};
+
   async function onOpen() {
-    const clientSubscriptions = new Map<number | string, Unsubscribable>();
+    const framer = createFramer(framingOpts);
+    const sendQueue = createSendQueue(dataChannel, framingOpts);
+    /**
+     * the codec selected during the handshake, until then every peer supports json
+     */
+    let codec = jsonCodec;
+    /**
+     * the features both peers support, undefined until the handshake completes
+     */
+    let features: DataChannelFeature[] | undefined;
+    const instrumenter = createInstrumenter("handler", opts);
 
-    function respond(untransformedJSON: TRPCResponseMessage) {
-      dataChannel.send(
-        JSON.stringify(transformTRPCResponse(router, untransformedJSON))
+    function respond(
+      untransformedJSON: TRPCResponseMessage,
+      queueOpts?: Parameters<typeof sendQueue.enqueue>[1]
+    ) {
+      return send(transformTRPCResponse(router, untransformedJSON), queueOpts);
+    }
+
+    function send(
+      message: ReturnType<typeof transformTRPCResponse> | TRPCHelloResponse,
+      queueOpts?: Parameters<typeof sendQueue.enqueue>[1]
+    ) {
+      let frames: Frame[];
+      try {
+        frames = framer.encode(codec.encode(message), {
+          chunking: features?.includes("chunking") ?? true,
+        });
+      } catch (cause) {
+        /* istanbul ignore next -- @preserve */
+        if (!(cause instanceof TRPCDataChannelMessageTooLargeError)) {
+          throw cause;
+        }
+        throw new TRPCError({
+          code: "PAYLOAD_TOO_LARGE",
+          message: cause.message,
+          cause,
+        });
+      }
+      if (instrumenter.enabled) {
+        instrumenter.response(
+          message,
+          frames.reduce((bytes, frame) => bytes + frameByteLength(frame), 0)
+        );
+      }
+      return sendQueue.enqueue(frames, queueOpts);
+    }
+
+    /**
+     * sends subscription data over the unreliable data channel, returning false
+     * if it must be sent reliably instead, as it doesn't fit in a single frame.
+     * Data is dropped whilst the unreliable data channel's buffer is full.
+     */
+    function sendUnreliably(untransformedJSON: TRPCResponseMessage) {
+      const frame = codec.encode(
+        transformTRPCResponse(router, untransformedJSON)
       );
+      if (
+        unreliableDataChannel?.readyState !== "open" ||
+        frameByteLength(frame) > framingOpts.maxMessageSize
+      ) {
+        return false;
+      }
+      if (
+        unreliableDataChannel.bufferedAmount <=
+        (opts.highWaterMark ?? DEFAULT_HIGH_WATER_MARK)
+      ) {
+        unreliableDataChannel.send(frame);
+        instrumenter.response(untransformedJSON, frameByteLength(frame));
+      }
+      return true;
     }
 
     function stopSubscription(
@@ -138,10 +653,254 @@ export function applyDataChannelHandler<TRouter extends AnyRouter>(
       });
     }
 
-    const ctxPromise = createContext?.();
+    /**
+     * sends each chunk of a result as it's produced, whilst the client has
+     * credit for more, ending with `stopped`
+     */
+    async function streamResult(
+      iterable: AsyncIterable<unknown>,
+      { id, jsonrpc }: { id: number | string } & JSONRPC2.BaseEnvelope,
+      signal: AbortSignal
+    ) {
+      if (!features?.includes("streaming")) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Client does not support streamed results",
+        });
+      }
+      const iterator = iterable[Symbol.asyncIterator]();
+      let credit = STREAM_WINDOW;
+      let onCredit = () => {};
+      streamPulls.set(id, (count) => {
+        credit += count;
+        onCredit();
+      });
+      signal.addEventListener("abort", () => onCredit(), { once: true });
+      let done = false;
+      try {
+        respond({ id, jsonrpc, result: { type: "started" } });
+        while (!signal.aborted) {
+          if (credit <= 0) {
+            await new Promise<void>((resolve) => (onCredit = resolve));
+            continue;
+          }
+          const next = await iterator.next();
+          done = !!next.done;
+          if (signal.aborted) {
+            break;
+          }
+          if (next.done) {
+            respond({ id, jsonrpc, result: { type: "stopped" } });
+            return;
+          }
+          credit--;
+          respond({ id, jsonrpc, result: { type: "data", data: next.value } });
+        }
+      } finally {
+        streamPulls.delete(id);
+        if (!done) {
+          // lets the procedure clean up, as the client stopped reading, or a
+          // chunk couldn't be sent
+          await iterator.return?.();
+        }
+      }
+    }
+
+    const connection: CreateDataChannelContextOptions = {
+      dataChannel: opts.dataChannel,
+      peerConnection: opts.peerConnection,
+      info: {
+        label: dataChannel.label,
+        protocol: dataChannel.protocol,
+        id: dataChannel.id,
+        ...(namespace !== undefined && { namespace }),
+      },
+    };
+    /**
+     * calls `opts.onError` with the connection the error occurred on
+     */
+    function onError(
+      errorOpts: Omit<
+        Parameters<NonNullable<typeof opts.onError>>[0],
+        keyof CreateDataChannelContextOptions
+      >
+    ) {
+      opts.onError?.({ ...errorOpts, ...connection });
+    }
+
+    let ctxPromise:
+      | inferRouterContext<TRouter>
+      | Promise<inferRouterContext<TRouter>>
+      | undefined = undefined;
     let ctx: inferRouterContext<TRouter> | undefined = undefined;
+    /**
+     * subscriptions whose procedures are being called, which count towards
+     * `maxSubscriptions` before they're active
+     */
+    let startingSubscriptions = 0;
+    /**
+     * calls made by this connection across all procedures, and to each procedure
+     */
+    const connectionRateLimiter = createRateLimiter();
+    const procedureRateLimiter = createRateLimiter();
+
+    /**
+     * counts a call against the connection's rate limits, returning the error to
+     * reject it with if it exceeds one
+     */
+    function rateLimitCall(path: string, type: ProcedureType) {
+      if (
+        opts.rateLimit &&
+        !connectionRateLimiter.tryAcquire("", opts.rateLimit)
+      ) {
+        return new TRPCError({
+          code: "TOO_MANY_REQUESTS",
+          message: `Rate limit of ${opts.rateLimit.limit} calls per ${opts.rateLimit.window}ms exceeded`,
+        });
+      }
+      const procedure = router._def.procedures[path] as
+        | AnyProcedure
+        | undefined;
+      if (!procedure) {
+        // unknown procedures aren't called, so needn't be limited
+        return undefined;
+      }
+      const meta = procedure._def.meta as inferRouterMeta<TRouter> | undefined;
+      const rateLimit = opts.procedureRateLimit
+        ? opts.procedureRateLimit({ path, type, meta })
+        : (meta as { rateLimit?: RateLimit } | undefined)?.rateLimit;
+      if (rateLimit && !procedureRateLimiter.tryAcquire(path, rateLimit)) {
+        return new TRPCError({
+          code: "TOO_MANY_REQUESTS",
+          message: `Rate limit of ${rateLimit.limit} calls per ${rateLimit.window}ms exceeded for ${path}`,
+        });
+      }
+      return undefined;
+    }
+
+    async function handleHello({ jsonrpc, params }: TRPCHelloRequest) {
+      if (features) {
+        // the client's data channel reopened, so its requests and subscriptions
+        // are gone, and it may now support other features and codecs
+        endSession();
+        features = undefined;
+        codec = jsonCodec;
+      }
+      if (params.version !== PROTOCOL_VERSION) {
+        const cause = new TRPCDataChannelVersionMismatchError(
+          `Client speaks protocol version ${params.version}, expected ${PROTOCOL_VERSION}`,
+          { version: PROTOCOL_VERSION, remoteVersion: params.version }
+        );
+        onError({
+          error: new TRPCError({
+            code: "BAD_REQUEST",
+            message: cause.message,
+            cause,
+          }),
+          path: undefined,
+          type: "unknown",
+          ctx,
+          input: undefined,
+        });
+        // lets the client fail with its own version mismatch error
+        send({
+          id: null,
+          jsonrpc,
+          method: "hello",
+          params: {
+            version: PROTOCOL_VERSION,
+            features: [],
+            codec: codec.name,
+          },
+        });
+        return;
+      }
+
+      features = SUPPORTED_FEATURES.filter(
+        (feature) =>
+          params.features.includes(feature) &&
+          (feature !== "unreliable" || unreliableDataChannel !== undefined)
+      );
+      // prefer the client's order, falling back to json which every peer supports
+      const selected =
+        (features.includes("codecs") &&
+          params.codecs
+            .map((name) => opts.codecs?.find((c) => c.name === name))
+            .find((c) => c !== undefined)) ||
+        jsonCodec;
+      connection.info.auth = params.auth;
+
+      // the response is sent with the current codec, and all later messages the new one
+      send({
+        id: null,
+        jsonrpc,
+        method: "hello",
+        params: { version: PROTOCOL_VERSION, features, codec: selected.name },
+      });
+      codec = selected;
+      // after the response, so the client tells a rejected context from a
+      // handler that can't parse its hello, however createContext throws
+      try {
+        ctxPromise = createContext?.(connection);
+      } catch (cause) {
+        ctxPromise = Promise.reject(cause);
+      }
+      await createContextAsync();
+    }
 
-    async function handleRequest(msg: TRPCClientOutgoingMessage) {
+    /**
+     * responds to a request with an error, without calling its procedure
+     */
+    function rejectRequest(
+      {
+        id,
+        jsonrpc,
+        method: type,
+        params: { path, input },
+      }: TRPCRequestMessage,
+      error: TRPCError
+    ) {
+      onError({ error, path, type, ctx, input });
+      respond({
+        id,
+        jsonrpc,
+        error: router.getErrorShape({ error, type, path, input, ctx }),
+      });
+    }
+
+    /**
+     * responds to a message that couldn't be parsed with an error, tied to the
+     * message's id if it has a valid one
+     */
+    function rejectMalformedMessage(raw: unknown, cause: unknown) {
+      const error =
+        cause instanceof TRPCError
+          ? cause
+          : new TRPCError({ code: "PARSE_ERROR", cause });
+      onError({
+        error,
+        path: undefined,
+        type: "unknown",
+        ctx,
+        input: undefined,
+      });
+      respond({
+        id: getRequestId(raw),
+        error: router.getErrorShape({
+          error,
+          type: "unknown",
+          path: undefined,
+          input: undefined,
+          ctx,
+        }),
+      });
+    }
+
+    async function handleRequest(msg: DataChannelClientOutgoingMessage) {
+      if (msg.method === "hello") {
+        await handleHello(msg);
+        return;
+      }
       const { id, jsonrpc } = msg;
       /* istanbul ignore next -- @preserve */
       if (id === null) {
@@ -150,6 +909,38 @@ export function applyDataChannelHandler<TRouter extends AnyRouter>(
           message: "`id` is required",
         });
       }
+      if (
+        !features &&
+        msg.method !== "subscription.stop" &&
+        msg.method !== "request.cancel" &&
+        msg.method !== "stream.pull"
+      ) {
+        // clients send requests once the handshake completes, so this client predates it
+        const cause = new TRPCDataChannelVersionMismatchError(
+          `Client does not support protocol version ${PROTOCOL_VERSION}`,
+          { version: PROTOCOL_VERSION, remoteVersion: undefined }
+        );
+        rejectRequest(
+          msg,
+          new TRPCError({ code: "BAD_REQUEST", message: cause.message, cause })
+        );
+        return;
+      }
+      if (
+        draining &&
+        msg.method !== "subscription.stop" &&
+        msg.method !== "request.cancel" &&
+        msg.method !== "stream.pull"
+      ) {
+        rejectRequest(
+          msg,
+          new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Handler is draining, so doesn't accept new requests",
+          })
+        );
+        return;
+      }
       if (msg.method === "subscription.stop") {
         const sub = clientSubscriptions.get(id);
         if (sub) {
@@ -158,8 +949,58 @@ export function applyDataChannelHandler<TRouter extends AnyRouter>(
         clientSubscriptions.delete(id);
         return;
       }
+      if (msg.method === "request.cancel") {
+        // the procedure counts towards maxConcurrentRequests until it returns
+        inflightRequests.get(id)?.abort();
+        instrumenter.end(id, "cancelled");
+        return;
+      }
+      if (msg.method === "stream.pull") {
+        streamPulls.get(id)?.(msg.params.count);
+        return;
+      }
       const { path, input } = msg.params;
       const type = msg.method;
+      if (
+        type !== "subscription" &&
+        opts.maxConcurrentRequests !== undefined &&
+        inflightRequests.size >= opts.maxConcurrentRequests
+      ) {
+        rejectRequest(
+          msg,
+          new TRPCError({
+            code: "TOO_MANY_REQUESTS",
+            message: `Handler is already working on its maxConcurrentRequests of ${opts.maxConcurrentRequests} requests`,
+          })
+        );
+        return;
+      }
+      if (
+        type === "subscription" &&
+        opts.maxSubscriptions !== undefined &&
+        clientSubscriptions.size + startingSubscriptions >=
+          opts.maxSubscriptions
+      ) {
+        rejectRequest(
+          msg,
+          new TRPCError({
+            code: "TOO_MANY_REQUESTS",
+            message: `Handler already has its maxSubscriptions of ${opts.maxSubscriptions} subscriptions`,
+          })
+        );
+        return;
+      }
+      const rateLimitError = rateLimitCall(path, type);
+      if (rateLimitError) {
+        rejectRequest(msg, rateLimitError);
+        return;
+      }
+      const controller = new AbortController();
+      if (type !== "subscription") {
+        inflightRequests.set(id, controller);
+      } else {
+        startingSubscriptions++;
+      }
       try {
         await ctxPromise; // asserts context has been set
 
@@ -167,10 +1008,21 @@ export function applyDataChannelHandler<TRouter extends AnyRouter>(
           procedures: router._def.procedures,
           path,
           rawInput: input,
-          ctx,
+          ctx:
+            type === "subscription"
+              ? ctx
+              : ({
+                  ...ctx,
+                  signal: controller.signal,
+                } satisfies DataChannelRequestContext),
           type,
         });
 
+        if (controller.signal.aborted) {
+          // the client is no longer waiting for this result
+          return;
+        }
+
         if (type === "subscription") {
           if (!isObservable(result)) {
             throw new TRPCError({
@@ -178,6 +1030,9 @@ export function applyDataChannelHandler<TRouter extends AnyRouter>(
               code: "INTERNAL_SERVER_ERROR",
             });
           }
+        } else if (isAsyncIterable(result)) {
+          await streamResult(result, { id, jsonrpc }, controller.signal);
+          return;
         } else {
           // send the value as data if the method is not a subscription
           respond({
@@ -192,32 +1047,68 @@ export function applyDataChannelHandler<TRouter extends AnyRouter>(
         }
 
         const observable = result;
+        const meta = (router._def.procedures[path] as AnyProcedure)._def
+          .meta as { reliable?: boolean } | undefined;
+        const unreliable =
+          !!features?.includes("unreliable") &&
+          ("reliable" in msg.params ? msg.params.reliable : meta?.reliable) ===
+            false;
+        /**
+         * numbers unreliable data, so the client can drop data that arrives
+         * after newer data
+         */
+        let seq = 0;
+        const policy =
+          typeof opts.backpressurePolicy === "function"
+            ? opts.backpressurePolicy({ path, input, ctx })
+            : opts.backpressurePolicy ?? "error";
+        const onSubscriptionError = (err: unknown) => {
+          const error = getTRPCErrorFromUnknown(err);
+          onError({ error, path, type, ctx, input });
+          respond({
+            id,
+            jsonrpc,
+            error: router.getErrorShape({
+              error,
+              type,
+              path,
+              input,
+              ctx,
+            }),
+          });
+        };
         const sub = observable.subscribe({
           next(data) {
-            respond({
-              id,
-              jsonrpc,
-              result: {
-                type: "data",
-                data,
-              },
-            });
-          },
-          error(err) {
-            const error = getTRPCErrorFromUnknown(err);
-            opts.onError?.({ error, path, type, ctx, input });
-            respond({
-              id,
-              jsonrpc,
-              error: router.getErrorShape({
-                error,
-                type,
-                path,
-                input,
-                ctx,
-              }),
-            });
+            try {
+              const message: TRPCResponseMessage = {
+                id,
+                jsonrpc,
+                result: {
+                  type: "data",
+                  data,
+                  // lets the client resume after this event, without knowing the data's shape
+                  ...(isTrackedData(data) && { id: data.id }),
+                  ...(unreliable && { seq: ++seq }),
+                },
+              };
+              if (unreliable && sendUnreliably(message)) {
+                return;
+              }
+              const queued = respond(message, { key: id, policy });
+              if (!queued && policy === "error") {
+                throw new TRPCError({
+                  code: "TOO_MANY_REQUESTS",
+                  message: `Subscription ${path} exceeded the send queue`,
+                });
+              }
+            } catch (err) {
+              // the data can't be delivered, so end the subscription rather than skip it
+              clientSubscriptions.get(id)?.unsubscribe();
+              clientSubscriptions.delete(id);
+              onSubscriptionError(err);
+            }
           },
+          error: onSubscriptionError,
           complete() {
             respond({
               id,
@@ -229,7 +1120,7 @@ export function applyDataChannelHandler<TRouter extends AnyRouter>(
           },
         });
         /* istanbul ignore next -- @preserve */
-        if (dataChannel.readyState !== "open") {
+        if (disposed || dataChannel.readyState !== "open") {
           // if the client got disconnected whilst initializing the subscription
           // no need to send stopped message if the client is disconnected
           sub.unsubscribe();
@@ -255,9 +1146,13 @@ export function applyDataChannelHandler<TRouter extends AnyRouter>(
           },
         });
       } catch (cause) /* istanbul ignore next -- @preserve */ {
+        if (controller.signal.aborted) {
+          // the client is no longer waiting for this error
+          return;
+        }
         // procedure threw an error
         const error = getTRPCErrorFromUnknown(cause);
-        opts.onError?.({ error, path, type, ctx, input });
+        onError({ error, path, type, ctx, input });
         respond({
           id,
           jsonrpc,
@@ -269,63 +1164,179 @@ export function applyDataChannelHandler<TRouter extends AnyRouter>(
             ctx,
           }),
         });
+      } finally {
+        if (type === "subscription") {
+          startingSubscriptions--;
+        } else if (inflightRequests.get(id) === controller) {
+          inflightRequests.delete(id);
+        }
       }
     }
-    dataChannel.addEventListener("message", async (message) => {
+    const onMessage = async (message: MessageEvent) => {
+      /**
+       * set whilst decoding, so a message that can't be decoded may still be
+       * tied to its requests
+       */
+      let undecoded: Frame | undefined;
       try {
-        const msgJSON: unknown = JSON.parse(message.data.toString());
+        const payload = framer.decode(toFrame(message.data));
+        if (payload === undefined) {
+          // waiting for the remaining chunks of this message
+          return;
+        }
+        undecoded = payload;
+        // a batch, its messages and their params nest inputs 3 levels deeper
+        const msgJSON: unknown = codec.decode(payload, {
+          maxDepth: (opts.maxDepth ?? DEFAULT_MAX_DEPTH) + 3,
+        });
+        undecoded = undefined;
         const msgs: unknown[] = Array.isArray(msgJSON) ? msgJSON : [msgJSON];
-        const promises = msgs
-          .map((raw) => parseMessage(raw, transformer))
-          .map(handleRequest);
+        if (Array.isArray(msgJSON) && instrumenter.enabled) {
+          instrumenter.batch("received", msgs.length, frameByteLength(payload));
+        }
+        const oversized =
+          opts.maxBatchSize !== undefined && msgs.length > opts.maxBatchSize;
+        const promises = msgs.map((raw) => {
+          let msg: DataChannelClientOutgoingMessage;
+          try {
+            msg = parseMessage(raw, transformer, opts);
+          } catch (cause) {
+            // only this message is malformed, so the rest of the batch is still handled
+            rejectMalformedMessage(raw, cause);
+            return Promise.resolve();
+          }
+          if (
+            instrumenter.enabled &&
+            (msg.method === "query" ||
+              msg.method === "mutation" ||
+              msg.method === "subscription")
+          ) {
+            instrumenter.startRequest({
+              id: msg.id!,
+              path: msg.params.path,
+              type: msg.method,
+              requestSize: frameByteLength(
+                Array.isArray(msgJSON) ? codec.encode(raw) : payload
+              ),
+              traceparent:
+                "traceparent" in msg.params
+                  ? msg.params.traceparent
+                  : undefined,
+            });
+          }
+          if (
+            oversized &&
+            (msg.method === "query" ||
+              msg.method === "mutation" ||
+              msg.method === "subscription")
+          ) {
+            // notifications are still handled, as ignoring a `subscription.stop`
+            // would leave its subscription running
+            rejectRequest(
+              msg,
+              new TRPCError({
+                code: "BAD_REQUEST",
+                message: `Batch of ${msgs.length} messages exceeds the maxBatchSize of ${opts.maxBatchSize}`,
+              })
+            );
+            return Promise.resolve();
+          }
+          const promise = handleRequest(msg);
+          const untrack = () => handling.delete(promise);
+          handling.add(promise);
+          promise.then(untrack, untrack);
+          return promise;
+        });
         await Promise.all(promises);
       } catch (cause) {
         const error = new TRPCError({
-          code: "PARSE_ERROR",
-          cause: cause instanceof Error ? cause : undefined,
+          code:
+            cause instanceof TRPCDataChannelMessageTooLargeError
+              ? "PAYLOAD_TOO_LARGE"
+              : "PARSE_ERROR",
+          cause,
         });
-
-        respond({
-          id: null,
-          error: router.getErrorShape({
-            error,
-            type: "unknown",
-            path: undefined,
-            input: undefined,
-            ctx: undefined,
-          }),
+        onError({
+          error,
+          path: undefined,
+          type: "unknown",
+          ctx,
+          input: undefined,
+        });
+        const shape = router.getErrorShape({
+          error,
+          type: "unknown",
+          path: undefined,
+          input: undefined,
+          ctx,
         });
+        const ids = undecoded === undefined ? [] : recoverRequestIds(undecoded);
+        if (ids.length === 0) {
+          respond({ id: null, error: shape });
+        }
+        for (const id of ids) {
+          respond({ id, error: shape });
+        }
       }
-    });
+    };
 
-    dataChannel.addEventListener("error", () => {
-      opts.onError?.({
+    const onDataChannelError = (ev: Event) => {
+      onError({
         ctx,
-        error: getTRPCErrorFromUnknown(
-          new Error("Underlying RTCDataChannel error")
-        ),
+        error: getTRPCErrorFromUnknown(getDataChannelError(ev)),
         input: undefined,
         path: undefined,
         type: "unknown",
       });
-    });
+    };
 
-    dataChannel.addEventListener(
-      "close",
-      () => {
-        for (const sub of clientSubscriptions.values()) {
-          sub.unsubscribe();
-        }
-        clientSubscriptions.clear();
-      },
-      { once: true }
-    );
+    /**
+     * stops working on the client's requests and subscriptions, without
+     * responding, as the client no longer waits for them
+     */
+    function endSession() {
+      sendQueue.clear();
+      for (const controller of inflightRequests.values()) {
+        controller.abort();
+      }
+      for (const sub of clientSubscriptions.values()) {
+        sub.unsubscribe();
+      }
+      clientSubscriptions.clear();
+      instrumenter.endAll("cancelled");
+    }
+
+    const onClose = () => {
+      framer.reset();
+      endSession();
+    };
+
+    dataChannel.addEventListener("message", onMessage);
+    dataChannel.addEventListener("error", onDataChannelError);
+    dataChannel.addEventListener("close", onClose, { once: true });
+
+    detach = () => {
+      dataChannel.removeEventListener("message", onMessage);
+      dataChannel.removeEventListener("error", onDataChannelError);
+      dataChannel.removeEventListener("close", onClose);
+      for (const controller of inflightRequests.values()) {
+        controller.abort();
+      }
+      // lets the client know its subscriptions won't receive more data
+      for (const [id, sub] of clientSubscriptions) {
+        stopSubscription(sub, { id });
+      }
+      clientSubscriptions.clear();
+      instrumenter.endAll("cancelled");
+      sendQueue.dispose();
+      framer.reset();
+    };
     async function createContextAsync() {
       try {
         ctx = await ctxPromise;
       } catch (cause) {
         const error = getTRPCErrorFromUnknown(cause);
-        opts.onError?.({
+        onError({
           error,
           path: undefined,
           type: "unknown",
@@ -344,12 +1355,11 @@ export function applyDataChannelHandler<TRouter extends AnyRouter>(
         });
 
         // close in next tick
-        (global.setImmediate ?? global.setTimeout)(() => {
+        setTimeout(() => {
           dataChannel.close();
         });
       }
     }
-    await createContextAsync();
   }
 
   if (dataChannel.readyState !== "open") {
@@ -358,13 +1368,43 @@ export function applyDataChannelHandler<TRouter extends AnyRouter>(
     onOpen();
   }
 
+  function dispose() {
+    if (disposed) {
+      return;
+    }
+    disposed = true;
+    dataChannel.removeEventListener("open", onOpen);
+    detach();
+    if (namespace !== undefined) {
+      // only closes the namespace, so another handler may serve it
+      namespaced.close();
+      unreliableDataChannel?.close();
+    }
+  }
+
   return {
     /**
-     * Don't use this, data channels can't be automatically reconnected.
+     * Stops handling messages from the data channel, without closing it. Active
+     * subscriptions are stopped, and in-flight requests won't be responded to.
      */
-    broadcastReconnectNotification: () => {
-      // TODO(bengreenier): remove this handler from the returned object
-      throw new Error("Reconnection is not supported");
+    dispose,
+    /**
+     * Stops accepting new requests, waits for in-flight queries and mutations to
+     * be responded to, and then disposes the handler
+     */
+    async drain() {
+      draining = true;
+      while (handling.size > 0) {
+        await Promise.allSettled(handling);
+      }
+      dispose();
+    },
+    get stats(): DataChannelHandlerStats {
+      return {
+        subscriptions: clientSubscriptions.size,
+        inflightRequests: inflightRequests.size,
+      };
     },
   };
 }
+export type TRPCDataChannelHandler = ReturnType<typeof applyDataChannelHandler>;
@@ -0,0 +1,38 @@
+export type DataChannelLikeEventType =
+  | "open"
+  | "message"
+  | "close"
+  | "error"
+  | "bufferedamountlow";
+
+/**
+ * The subset of `RTCDataChannel` that clients and handlers use. Browser data
+ * channels implement it, and the adapters wrap data channels from Node.js
+ * WebRTC libraries to implement it.
+ */
+export interface DataChannelLike {
+  readonly label: string;
+  readonly protocol: string;
+  readonly id: number | null;
+  readonly readyState: RTCDataChannelState;
+  readonly bufferedAmount: number;
+  bufferedAmountLowThreshold: number;
+  /**
+   * Set to `"arraybuffer"` by clients and handlers, so binary messages arrive
+   * as `ArrayBuffer`s
+   */
+  binaryType: BinaryType;
+  send(data: string | ArrayBufferView): void;
+  close(): void;
+  addEventListener(
+    type: DataChannelLikeEventType,
+    // `any` rather than `Event`, so both `RTCDataChannel` and `EventTarget`
+    // implement it whilst listeners still declare the event they expect
+    listener: (ev: any) => void,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+  removeEventListener(
+    type: DataChannelLikeEventType,
+    listener: (ev: any) => void
+  ): void;
+}
@@ -1,14 +1,58 @@
-import { AnyRouter, ProcedureType, inferRouterError } from "@trpc/server";
+import {
+  AnyProcedure,
+  AnyRouter,
+  DefaultDataTransformer,
+  ProcedureType,
+  inferRouterError,
+} from "@trpc/server";
 import { Observer, UnsubscribeFn, observable } from "@trpc/server/observable";
 import {
-  TRPCClientIncomingMessage,
   TRPCClientIncomingRequest,
-  TRPCClientOutgoingMessage,
-  TRPCRequestMessage,
   TRPCResponseMessage,
+  TRPC_ERROR_CODES_BY_KEY,
 } from "@trpc/server/rpc";
+import { SerializeObject } from "@trpc/server/shared";
 import { Operation, TRPCLink, TRPCClientError } from "@trpc/client";
 import { transformResult } from "./internals/transformResult.js";
+import { createResultStream } from "./internals/resultStream.js";
+import { getDataChannelError } from "./internals/dataChannelError.js";
+import {
+  DataChannelInstrumentation,
+  DataChannelTracer,
+  createInstrumenter,
+} from "./internals/instrumentation.js";
+import {
+  DEFAULT_MAX_MESSAGE_SIZE,
+  Frame,
+  FramingOptions,
+  createFramer,
+  frameByteLength,
+  toFrame,
+} from "./internals/framing.js";
+import { getMultiplexer, multiplexOverhead } from "./internals/multiplex.js";
+import {
+  DataChannelEncryptionOptions,
+  ENCRYPTION_OVERHEAD,
+  createEncryptedDataChannel,
+} from "./internals/encryption.js";
+import { BackpressureOptions, createSendQueue } from "./internals/sendQueue.js";
+import {
+  DataChannelClientIncomingMessage,
+  DataChannelClientOutgoingMessage,
+  DataChannelFeature,
+  DataChannelRequestMessage,
+  PROTOCOL_VERSION,
+  SUPPORTED_FEATURES,
+  TRPCHelloResponse,
+} from "./internals/envelopes.js";
+import { DataChannelCodec, jsonCodec } from "./codecs.js";
+import {
+  TRPCDataChannelClosedError,
+  TRPCDataChannelMessageTooLargeError,
+  TRPCDataChannelTimeoutError,
+  TRPCDataChannelVersionMismatchError,
+} from "./errors.js";
+import { DataChannelLike } from "./data-channel-like.js";
 
 // converted from https://github.com/trpc/trpc/blob/9c2df391fea0ff735d0a6c4c0bbf6c1f7c2cbecd/packages/client/src/links/wsLink.ts
 
@@ -22,17 +66,160 @@ type RTCCallbackObserver<TRouter extends AnyRouter, TOutput> = Observer<
   TRPCClientError<TRouter>
 >;
 
-export interface DataChannelClientOptions {
-  dataChannel: RTCDataChannel;
+/**
+ * - `connecting` whilst waiting for the initial data channel to open
+ * - `open` whilst requests can be sent
+ * - `reconnecting` whilst waiting for a replacement data channel to open
+ * - `closed` once the client is closed
+ */
+export type DataChannelClientState =
+  | "connecting"
+  | "open"
+  | "reconnecting"
+  | "closed";
+
+/**
+ * What a client is doing, given to its lifecycle hooks
+ */
+export interface DataChannelClientStatus {
+  state: DataChannelClientState;
+  /**
+   * The number of queries, mutations and subscriptions awaiting responses
+   */
+  pendingRequests: number;
+}
+
+export interface DataChannelClientOptions
+  extends FramingOptions,
+    BackpressureOptions {
+  dataChannel: DataChannelLike;
+  /**
+   * A second data channel, created with `ordered: false` and `maxRetransmits`
+   * or `maxPacketLifeTime`, over which the handler sends the data of
+   * subscriptions that don't need reliable delivery. Set `op.context.reliable`
+   * to `false` to opt a subscription out, or `true` to override its
+   * `meta.reliable`. Data arriving after newer data is dropped.
+   */
+  unreliableDataChannel?: DataChannelLike;
+  /**
+   * Provides a replacement when the active data channel closes unexpectedly.
+   * Pending queries are moved to the replacement, and active subscriptions are
+   * re-subscribed, rather than failing with `TRPCDataChannelClosedError`.
+   * Mutations that were already sent still fail, as they may have been applied.
+   */
+  reconnect?: () => DataChannelLike | Promise<DataChannelLike>;
+  /**
+   * Codecs to offer the handler, in order of preference. The handler selects
+   * one it also supports, or `jsonCodec` which every peer supports.
+   */
+  codecs?: DataChannelCodec[];
+  /**
+   * Milliseconds to wait for the response to a query or mutation, before
+   * failing it with a `TRPCDataChannelTimeoutError`. Can be overridden per
+   * operation with a numeric `timeout` in its context. Defaults to no timeout.
+   */
+  timeout?: number;
+  /**
+   * Milliseconds to wait for more operations to batch with the first, before
+   * sending them. Defaults to `0`, which batches the operations of one tick.
+   */
+  batchDelay?: number;
+  /**
+   * The most operations to send in one batch, beyond which they're split into
+   * several batches. Should be at most the handler's `maxBatchSize`. Defaults
+   * to no limit.
+   */
+  maxBatchSize?: number;
+  /**
+   * The largest batch to send, in bytes, measured as the sum of its encoded
+   * operations. Larger batches are split into several. Defaults to no limit.
+   */
+  maxBatchBytes?: number;
+  /**
+   * Sent to the handler during the handshake, where it's available to
+   * `createContext` as `info.auth`
+   */
+  auth?: unknown;
+  /**
+   * Calls the handler of the same namespace, so several routers can share one
+   * data channel. See `DataChannelHandlerOptions.namespace`.
+   */
+  namespace?: string;
+  /**
+   * Encrypts and authenticates each frame end-to-end, for data channels relayed
+   * by peers that terminate DTLS. The handler must encrypt with matching options.
+   */
+  encryption?: DataChannelEncryptionOptions;
+  /**
+   * Called when the active data channel opens
+   */
+  onOpen?: (status: DataChannelClientStatus) => void;
+  /**
+   * Called when the active data channel closes, with the number of pending
+   * requests that failed because it closed
+   */
+  onClose?: (
+    status: DataChannelClientStatus & { failedRequests: number }
+  ) => void;
+  /**
+   * Called when the active data channel errors, the handler speaks another
+   * protocol version, or `reconnect` fails
+   */
+  onError?: (status: DataChannelClientStatus & { error: unknown }) => void;
+  /**
+   * Called when the handler responds to a request that isn't pending, such as
+   * one that timed out or was cancelled, or with an id of `null`
+   */
+  onUnmatchedResponse?: (
+    status: DataChannelClientStatus & { response: TRPCResponseMessage }
+  ) => void;
+  /**
+   * Called when a message from the handler can't be decoded, or the handler
+   * reports an error that isn't tied to a request, such as a `PARSE_ERROR` for
+   * a message it couldn't decode
+   */
+  onProtocolError?: (
+    status: DataChannelClientStatus & { error: unknown }
+  ) => void;
+  /**
+   * Called as requests are made, for structured logging and metrics
+   */
+  instrumentation?: DataChannelInstrumentation;
+  /**
+   * Traces each request made, sending its span's context to the handler so the
+   * handler's span can link to it
+   */
+  tracer?: DataChannelTracer;
+  /**
+   * Called each time the client moves to another state
+   */
+  onStateChange?: (status: DataChannelClientStatus) => void;
 }
 
 export function createDataChannelClient(opts: DataChannelClientOptions) {
-  const { dataChannel } = opts;
+  const { namespace, encryption } = opts;
+  if (encryption && opts.unreliableDataChannel) {
+    throw new TypeError(
+      "Encryption isn't supported with an unreliableDataChannel, whose frames may be lost or reordered"
+    );
+  }
+  // leave room for the namespace's tag and encryption, so frames still fit the data channel
+  const framingOpts = {
+    ...opts,
+    maxMessageSize:
+      (opts.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE) -
+      (namespace === undefined ? 0 : multiplexOverhead(namespace)) -
+      (encryption ? ENCRYPTION_OVERHEAD : 0),
+  };
+  const framer = createFramer(framingOpts);
+  const instrumenter = createInstrumenter("client", opts);
+  const initialDataChannel = wrapDataChannel(opts.dataChannel);
+  let sendQueue = createSendQueue(initialDataChannel, framingOpts);
 
   /**
    * outgoing messages buffer whilst not open
    */
-  let outgoing: TRPCClientOutgoingMessage[] = [];
+  let outgoing: DataChannelClientOutgoingMessage[] = [];
   /**
    * pending outgoing requests that are awaiting callback
    */
@@ -41,16 +228,71 @@ export function createDataChannelClient(opts: DataChannelClientOptions) {
     /**
      * Reference to the dataChannel instance this request was made to
      */
-    dataChannel: RTCDataChannel;
+    dataChannel: DataChannelLike;
     type: ProcedureType;
     callbacks: TCallbacks;
     op: Operation;
+    /**
+     * Fails the request if no response arrives in time
+     */
+    timer?: ReturnType<typeof setTimeout>;
+    /**
+     * The id of the last tracked event a subscription received, which it
+     * resumes after when re-subscribing
+     */
+    lastEventId?: string;
+    /**
+     * Set once a query or mutation's result starts streaming, after which it
+     * awaits chunks until `stopped`
+     */
+    streaming?: boolean;
+    /**
+     * The sequence number of the newest data a subscription received, which
+     * older data arriving later is dropped in favor of
+     */
+    lastSeq?: number;
+    /**
+     * Set whilst a subscription is re-subscribed on a replacement data channel,
+     * during which unreliable data, numbered by the old handler, is dropped
+     */
+    resubscribing?: boolean;
+    /**
+     * Of the request's span, which is sent again if the request is
+     */
+    traceparent?: string;
   };
   const pendingRequests: Record<number | string, TRequest> =
     Object.create(null);
   let dispatchTimer: NodeJS.Timer | number | null = null;
-  let state: "open" | "connecting" | "closed" = "connecting";
-  let activeConnection = configureDataChannel();
+  /**
+   * when the pending dispatch will send, which sooner dispatches bring forward
+   */
+  let dispatchTime = 0;
+  let state: DataChannelClientState = "connecting";
+  const stateObservers = new Set<Observer<DataChannelClientState, never>>();
+  /**
+   * removes the listeners that `configureDataChannel` added to the active connection
+   */
+  let detachActiveConnection = () => {};
+  /**
+   * the codec and features agreed with the handler of the active connection,
+   * undefined whilst handshaking
+   */
+  let session:
+    | { codec: DataChannelCodec; features: DataChannelFeature[] }
+    | undefined;
+  /**
+   * set if the handler speaks another protocol version, failing all requests
+   */
+  let versionMismatchError: TRPCDataChannelVersionMismatchError | undefined;
+  /**
+   * removes the listener that `configureUnreliableDataChannel` added
+   */
+  let detachUnreliableConnection = () => {};
+  let unreliableConnection =
+    opts.unreliableDataChannel &&
+    configureUnreliableDataChannel(toNamespaced(opts.unreliableDataChannel));
+  let activeConnection = configureDataChannel(initialDataChannel);
 
   // the data channel may already be open, in which case
   // we should invoke the open handler on behalf of the caller
@@ -60,12 +302,43 @@ export function createDataChannelClient(opts: DataChannelClientOptions) {
   }
 
   /**
-   * tries to send the list of messages
+   * the channel of a data channel that carries the client's namespace, so frames
+   * of other namespaces are left to their own clients
    */
-  function dispatch() {
-    if (state !== "open" || dispatchTimer) {
+  function toNamespaced(dataChannel: DataChannelLike) {
+    return namespace === undefined
+      ? dataChannel
+      : getMultiplexer(dataChannel).channel({
+          inbound: namespace,
+          outbound: namespace,
+        });
+  }
+
+  /**
+   * the namespaced channel of a data channel, encrypted if configured
+   */
+  function wrapDataChannel(dataChannel: DataChannelLike) {
+    const namespaced = toNamespaced(dataChannel);
+    return encryption
+      ? createEncryptedDataChannel(namespaced, "client", encryption)
+      : namespaced;
+  }
+
+  /**
+   * tries to send the list of messages, after waiting `delay` for more to batch
+   * with them
+   */
+  function dispatch(delay = opts.batchDelay ?? 0) {
+    if (state !== "open" || !session) {
       return;
     }
+    if (dispatchTimer) {
+      if (Date.now() + delay >= dispatchTime) {
+        return;
+      }
+      clearTimeout(dispatchTimer);
+    }
+    dispatchTime = Date.now() + delay;
     dispatchTimer = setTimeout(() => {
       dispatchTimer = null;
 
@@ -73,19 +346,129 @@ export function createDataChannelClient(opts: DataChannelClientOptions) {
         return;
       }
 
-      if (outgoing.length === 1) {
-        // single send
-        activeConnection.send(JSON.stringify(outgoing.pop()));
-      } else {
-        // batch send
-        activeConnection.send(JSON.stringify(outgoing));
-      }
+      const messages = outgoing;
       // clear
       outgoing = [];
-    });
+
+      if (!session?.features.includes("batching")) {
+        // single sends
+        messages.forEach(trySend);
+        return;
+      }
+      for (const batch of toBatches(messages)) {
+        if (batch.length === 1) {
+          trySend(batch[0]);
+          continue;
+        }
+        // batch send
+        try {
+          send(batch);
+        } catch (cause) {
+          /* istanbul ignore next -- @preserve */
+          if (!(cause instanceof TRPCDataChannelMessageTooLargeError)) {
+            throw cause;
+          }
+          // the batch as a whole is too large, but its messages may not be
+          batch.forEach(trySend);
+        }
+      }
+    }, delay);
+  }
+
+  /**
+   * whether a message is for an operation that opted out of batching, with a
+   * truthy `skipBatch` in its context
+   */
+  function skipsBatch(message: DataChannelClientOutgoingMessage) {
+    return (
+      message.id !== null && !!pendingRequests[message.id]?.op.context.skipBatch
+    );
   }
 
-  function closeIfNoPending(conn: RTCDataChannel) {
+  /**
+   * splits messages into batches within `maxBatchSize` and `maxBatchBytes`,
+   * sending those that skip batching on their own
+   */
+  function toBatches(messages: DataChannelClientOutgoingMessage[]) {
+    const { maxBatchSize = Infinity, maxBatchBytes } = opts;
+    const batches: DataChannelClientOutgoingMessage[][] = [];
+    let batch: DataChannelClientOutgoingMessage[] = [];
+    let bytes = 0;
+    for (const message of messages) {
+      if (skipsBatch(message)) {
+        batches.push([message]);
+        continue;
+      }
+      const size =
+        maxBatchBytes === undefined
+          ? 0
+          : frameByteLength((session?.codec ?? jsonCodec).encode(message));
+      if (
+        batch.length > 0 &&
+        (batch.length >= maxBatchSize ||
+          (maxBatchBytes !== undefined && bytes + size > maxBatchBytes))
+      ) {
+        batches.push(batch);
+        batch = [];
+        bytes = 0;
+      }
+      batch.push(message);
+      bytes += size;
+    }
+    if (batch.length > 0) {
+      batches.push(batch);
+    }
+    return batches;
+  }
+
+  /**
+   * encodes and queues messages to be sent, splitting them into chunks as needed
+   */
+  function send(
+    messages:
+      | DataChannelClientOutgoingMessage
+      | DataChannelClientOutgoingMessage[]
+  ) {
+    const encoded = (session?.codec ?? jsonCodec).encode(messages);
+    // encode all frames before queueing any, so a failure sends nothing
+    sendQueue.enqueue(
+      framer.encode(encoded, {
+        chunking: session?.features.includes("chunking") ?? true,
+      })
+    );
+    if (Array.isArray(messages) && instrumenter.enabled) {
+      instrumenter.batch("sent", messages.length, frameByteLength(encoded));
+    }
+  }
+
+  /**
+   * sends a single message, failing its request if it's too large to send
+   */
+  function trySend(message: DataChannelClientOutgoingMessage) {
+    try {
+      send(message);
+    } catch (cause) {
+      /* istanbul ignore next -- @preserve */
+      if (!(cause instanceof TRPCDataChannelMessageTooLargeError)) {
+        throw cause;
+      }
+      const req = message.id !== null && removePendingRequest(message.id);
+      if (req) {
+        req.callbacks.error?.(TRPCClientError.from(cause));
+      }
+    }
+  }
+
+  function removePendingRequest(id: number | string): TRequest | undefined {
+    const req = pendingRequests[id];
+    if (req) {
+      clearTimeout(req.timer);
+      delete pendingRequests[id];
+    }
+    return req;
+  }
+
+  function closeIfNoPending(conn: DataChannelLike) {
     // disconnect as soon as there are are no pending result
     const hasPendingRequests = Object.values(pendingRequests).some(
       (p) => p.dataChannel === conn
@@ -95,25 +478,170 @@ export function createDataChannelClient(opts: DataChannelClientOptions) {
     }
   }
 
-  function onOpen() {
-    /* istanbul ignore next -- @preserve */
-    if (dataChannel !== activeConnection) {
+  function getStatus(): DataChannelClientStatus {
+    return { state, pendingRequests: Object.keys(pendingRequests).length };
+  }
+
+  function setState(next: DataChannelClientState) {
+    if (state === next) {
       return;
     }
-    state = "open";
-    dispatch();
+    state = next;
+    for (const observer of stateObservers) {
+      observer.next(state);
+    }
+    opts.onStateChange?.(getStatus());
+  }
+
+  function onOpen() {
+    setState("open");
+    opts.onOpen?.(getStatus());
+    sendHello();
+  }
+
+  /**
+   * starts the handshake, holding requests until the handler acknowledges it
+   */
+  function sendHello() {
+    session = undefined;
+    const names = (opts.codecs ?? []).map((c) => c.name);
+    send({
+      id: null,
+      method: "hello",
+      params: {
+        version: PROTOCOL_VERSION,
+        // the handler only sends data unreliably if we can receive it
+        features: SUPPORTED_FEATURES.filter(
+          (feature) => feature !== "unreliable" || unreliableConnection
+        ),
+        codecs: names.includes(jsonCodec.name)
+          ? names
+          : [...names, jsonCodec.name],
+        auth: opts.auth,
+      },
+    });
+  }
+
+  /**
+   * fails all requests, as the handler can't understand them
+   */
+  function onVersionMismatch(remoteVersion: number | undefined) {
+    versionMismatchError = new TRPCDataChannelVersionMismatchError(
+      remoteVersion === undefined
+        ? `Handler does not support protocol version ${PROTOCOL_VERSION}`
+        : `Handler speaks protocol version ${remoteVersion}, expected ${PROTOCOL_VERSION}`,
+      { version: PROTOCOL_VERSION, remoteVersion }
+    );
+    setState("closed");
+    outgoing = [];
+    for (const key of Object.keys(pendingRequests)) {
+      removePendingRequest(key)?.callbacks.error?.(
+        TRPCClientError.from(versionMismatchError)
+      );
+    }
+    opts.onError?.({ ...getStatus(), error: versionMismatchError });
+    activeConnection.close();
+  }
+
+  /**
+   * records the event id and sequence number of subscription data, returning
+   * false if newer data has already arrived
+   */
+  function acceptSubscriptionData(req: TRequest, result: object) {
+    const { id, seq } = result as { id?: unknown; seq?: unknown };
+    if (typeof seq === "number") {
+      if (req.lastSeq !== undefined && seq <= req.lastSeq) {
+        return false;
+      }
+      req.lastSeq = seq;
+    }
+    if (typeof id === "string") {
+      req.lastEventId = id;
+    }
+    return true;
+  }
+
+  /**
+   * listens for subscription data, which is never chunked, on an unreliable
+   * data channel
+   */
+  function configureUnreliableDataChannel(dataChannel: DataChannelLike) {
+    const unreliableFramer = createFramer(framingOpts);
+    dataChannel.binaryType = "arraybuffer";
+    const onUnreliableMessage = ({ data }: MessageEvent) => {
+      if (!session) {
+        return;
+      }
+      let msg: DataChannelClientIncomingMessage;
+      let payload: Frame | undefined;
+      try {
+        payload = unreliableFramer.decode(toFrame(data));
+        if (payload === undefined) {
+          return;
+        }
+        msg = session.codec.decode(payload) as DataChannelClientIncomingMessage;
+      } catch {
+        // lost data is already tolerated, so malformed data can be too
+        return;
+      }
+      if ("method" in msg || msg.id === null || !("result" in msg)) {
+        return;
+      }
+      const req = pendingRequests[msg.id];
+      if (
+        req?.type === "subscription" &&
+        !req.resubscribing &&
+        msg.result.type === "data" &&
+        acceptSubscriptionData(req, msg.result)
+      ) {
+        instrumenter.response(msg, frameByteLength(payload));
+        req.callbacks.next?.(msg);
+      }
+    };
+    dataChannel.addEventListener("message", onUnreliableMessage);
+    detachUnreliableConnection = () => {
+      dataChannel.removeEventListener("message", onUnreliableMessage);
+    };
+    return dataChannel;
   }
 
-  function configureDataChannel() {
+  function configureDataChannel(dataChannel: DataChannelLike) {
+    const onDataChannelOpen = () => {
+      /* istanbul ignore next -- @preserve */
+      if (dataChannel !== activeConnection) {
+        return;
+      }
+      onOpen();
+    };
+    dataChannel.binaryType = "arraybuffer";
     if (dataChannel.readyState !== "open") {
-      dataChannel.addEventListener("open", onOpen, { once: true });
+      dataChannel.addEventListener("open", onDataChannelOpen, { once: true });
     } else {
       // this is handled above, as we cannot access activeConnection here (which is during assignment)
       // so we instead hoist the call to after `configureDataChannel` completes
       // this could be refactored, but am trying to keep the shape of this logic aligned with `wsLink`
     }
 
-    const handleIncomingRequest = (req: TRPCClientIncomingRequest) => {
+    const handleIncomingRequest = (
+      req: TRPCClientIncomingRequest | TRPCHelloResponse
+    ) => {
+      if (req.method === "hello") {
+        if (req.params.version !== PROTOCOL_VERSION) {
+          onVersionMismatch(req.params.version);
+          return;
+        }
+        const { features } = req.params;
+        session = {
+          codec:
+            (features.includes("codecs") &&
+              opts.codecs?.find((c) => c.name === req.params.codec)) ||
+            jsonCodec,
+          features,
+        };
+        // requests have already waited for the handshake
+        dispatch(0);
+        return;
+      }
       // we can't "reconnect" a data channel on our own, so we instead close it out
       // in practice, this should not be used for webrtc connections
       if (req.method === "reconnect" && dataChannel === activeConnection) {
@@ -122,14 +650,64 @@ export function createDataChannelClient(opts: DataChannelClientOptions) {
         }
       }
     };
-    const handleIncomingResponse = (data: TRPCResponseMessage) => {
+    const handleIncomingResponse = (
+      data: TRPCResponseMessage,
+      size: number
+    ) => {
       const req = data.id !== null && pendingRequests[data.id];
 
       if (!req) {
-        // do something?
+        if (
+          data.id === null &&
+          !session &&
+          state === "open" &&
+          "error" in data &&
+          (data.error.code === TRPC_ERROR_CODES_BY_KEY.PARSE_ERROR ||
+            data.error.code === TRPC_ERROR_CODES_BY_KEY.METHOD_NOT_SUPPORTED)
+        ) {
+          // the handler couldn't parse our hello, so predates the handshake.
+          // Other errors, such as a rejected context, aren't about the hello.
+          onVersionMismatch(undefined);
+          return;
+        }
+        opts.onUnmatchedResponse?.({ ...getStatus(), response: data });
+        if (data.id === null && "error" in data) {
+          opts.onProtocolError?.({
+            ...getStatus(),
+            // with the error shape as the handler serialized it, as the
+            // transformer belongs to the link
+            error: TRPCClientError.from(data),
+          });
+        }
         return;
       }
 
+      if (req.type !== "subscription") {
+        if ("result" in data && data.result.type === "started") {
+          // the result is streamed, and chunks may arrive at any pace
+          req.streaming = true;
+          clearTimeout(req.timer);
+        } else if (
+          !req.streaming ||
+          !("result" in data) ||
+          data.result.type === "stopped"
+        ) {
+          // otherwise queries and mutations only ever have a single response
+          removePendingRequest(data.id!);
+        }
+      } else if ("result" in data && data.result.type === "started") {
+        if (req.resubscribing) {
+          // the replacement's handler numbers the subscription's data afresh
+          req.resubscribing = undefined;
+          req.lastSeq = undefined;
+        }
+      } else if (
+        "result" in data &&
+        !acceptSubscriptionData(req, data.result)
+      ) {
+        return;
+      }
+      instrumenter.response(data, size);
       req.callbacks.next?.(data);
       if (
         req.dataChannel !== activeConnection &&
@@ -149,21 +727,74 @@ export function createDataChannelClient(opts: DataChannelClientOptions) {
         req.callbacks.complete();
       }
     };
-    dataChannel.addEventListener("message", ({ data }) => {
-      const msg = JSON.parse(data) as TRPCClientIncomingMessage;
+    const onDataChannelMessage = ({ data }: MessageEvent) => {
+      let payload: Frame | undefined;
+      let msg: DataChannelClientIncomingMessage;
+      try {
+        payload = framer.decode(toFrame(data));
+        if (payload === undefined) {
+          // waiting for the remaining chunks of this message
+          return;
+        }
+        msg = (session?.codec ?? jsonCodec).decode(
+          payload
+        ) as DataChannelClientIncomingMessage;
+      } catch (error) {
+        // malformed or oversized messages can't be matched to a request, so are dropped
+        opts.onProtocolError?.({ ...getStatus(), error });
+        return;
+      }
 
       if ("method" in msg) {
         handleIncomingRequest(msg);
       } else {
-        handleIncomingResponse(msg);
+        handleIncomingResponse(msg, frameByteLength(payload));
       }
       if (dataChannel !== activeConnection || state === "closed") {
         // when receiving a message, we close old connection that has no pending requests
         closeIfNoPending(dataChannel);
       }
-    });
+    };
+    dataChannel.addEventListener("message", onDataChannelMessage);
 
-    dataChannel.addEventListener("close", () => {
+    const onDataChannelClose = () => {
+      framer.reset();
+      sendQueue.clear();
+      if (
+        opts.reconnect &&
+        state !== "closed" &&
+        dataChannel === activeConnection
+      ) {
+        // pending requests are moved to the replacement, rather than failed
+        setState("reconnecting");
+        Promise.resolve()
+          .then(opts.reconnect)
+          .then(
+            (replacement) => {
+              if (state === "closed") {
+                // the client was closed whilst waiting for the replacement
+                replacement.close();
+                for (const key of Object.keys(pendingRequests)) {
+                  removePendingRequest(key)?.callbacks.complete?.();
+                }
+                return;
+              }
+              replaceDataChannel(replacement);
+            },
+            (cause) => {
+              setState("closed");
+              for (const key of Object.keys(pendingRequests)) {
+                removePendingRequest(key)?.callbacks.error?.(
+                  TRPCClientError.from(cause)
+                );
+              }
+              opts.onError?.({ ...getStatus(), error: cause });
+            }
+          );
+        opts.onClose?.({ ...getStatus(), failedRequests: 0 });
+        return;
+      }
+      let failedRequests = 0;
       for (const [key, req] of Object.entries(pendingRequests)) {
         if (req.dataChannel !== dataChannel) {
           continue;
@@ -171,86 +802,309 @@ export function createDataChannelClient(opts: DataChannelClientOptions) {
 
         if (state === "closed") {
           // If the connection was closed, we just call `complete()` on the request
-          delete pendingRequests[key];
+          removePendingRequest(key);
           req.callbacks.complete?.();
           continue;
         }
 
         // error if interrupted
-        delete pendingRequests[key];
+        removePendingRequest(key);
+        failedRequests++;
         req.callbacks.error?.(
           TRPCClientError.from(
             new TRPCDataChannelClosedError("DataChannel closed prematurely")
           )
         );
       }
-    });
+      if (dataChannel === activeConnection) {
+        if (state !== "closed") {
+          // nothing will replace the data channel, though it may open again
+          setState("closed");
+          dataChannel.addEventListener("open", onDataChannelReopen, {
+            once: true,
+          });
+        }
+        opts.onClose?.({ ...getStatus(), failedRequests });
+      }
+    };
+    dataChannel.addEventListener("close", onDataChannelClose);
+
+    const onDataChannelReopen = () => {
+      if (dataChannel !== activeConnection || state !== "closed") {
+        return;
+      }
+      // the handler may have restarted with other features or codecs, so the
+      // handshake starts again
+      onOpen();
+    };
+
+    const onDataChannelError = (ev: Event) => {
+      if (dataChannel !== activeConnection) {
+        return;
+      }
+      opts.onError?.({ ...getStatus(), error: getDataChannelError(ev) });
+    };
+    dataChannel.addEventListener("error", onDataChannelError);
+
+    detachActiveConnection = () => {
+      dataChannel.removeEventListener("open", onDataChannelOpen);
+      dataChannel.removeEventListener("message", onDataChannelMessage);
+      dataChannel.removeEventListener("close", onDataChannelClose);
+      dataChannel.removeEventListener("open", onDataChannelReopen);
+      dataChannel.removeEventListener("error", onDataChannelError);
+    };
     return dataChannel;
   }
 
-  function request(op: Operation, callbacks: TCallbacks): UnsubscribeFn {
-    const { type, input, path, id } = op;
-    const envelope: TRPCRequestMessage = {
+  /**
+   * moves the client to a new data channel, sending pending queries again
+   * and re-subscribing active subscriptions once it's open. Mutations that were
+   * already sent fail, rather than risk being applied twice. The unreliable data
+   * channel is kept, unless `unreliableReplacement` is given.
+   */
+  function replaceDataChannel(
+    replacement: DataChannelLike,
+    unreliableReplacement?: DataChannelLike
+  ) {
+    const oldConnection = activeConnection;
+    detachActiveConnection();
+    if (unreliableReplacement) {
+      detachUnreliableConnection();
+      if (unreliableConnection?.readyState !== "closed") {
+        unreliableConnection?.close();
+      }
+      unreliableConnection = configureUnreliableDataChannel(
+        toNamespaced(unreliableReplacement)
+      );
+    }
+    sendQueue.dispose();
+    framer.reset();
+    session = undefined;
+
+    setState("reconnecting");
+    const dataChannel = wrapDataChannel(replacement);
+    sendQueue = createSendQueue(dataChannel, framingOpts);
+    activeConnection = configureDataChannel(dataChannel);
+
+    // queries and subscriptions that were already sent need sending again, as
+    // the old handler won't respond to them. Notifications are only meaningful
+    // to the old handler.
+    const queued = outgoing.filter(
+      (msg) =>
+        msg.method !== "subscription.stop" &&
+        msg.method !== "request.cancel" &&
+        msg.method !== "stream.pull"
+    );
+    const resent: DataChannelClientOutgoingMessage[] = [];
+    for (const [key, req] of Object.entries(pendingRequests)) {
+      if (req.streaming) {
+        // sending it again would repeat the chunks already received
+        removePendingRequest(key);
+        req.callbacks.error?.(
+          TRPCClientError.from(
+            new TRPCDataChannelClosedError(
+              "DataChannel replaced whilst streaming"
+            )
+          )
+        );
+        continue;
+      }
+      const sent = !queued.some((msg) => msg.id === req.op.id);
+      if (sent && req.op.type === "mutation") {
+        // the old handler may have applied it, so sending it again could apply it twice
+        removePendingRequest(key);
+        req.callbacks.error?.(
+          TRPCClientError.from(
+            new TRPCDataChannelClosedError(
+              "DataChannel replaced before the mutation was answered"
+            )
+          )
+        );
+        continue;
+      }
+      req.dataChannel = activeConnection;
+      if (req.type === "subscription") {
+        req.resubscribing = true;
+      }
+      if (sent) {
+        resent.push(toRequestMessage(req.op, req.lastEventId, req.traceparent));
+      }
+    }
+    outgoing = [...resent, ...queued];
+
+    if (oldConnection.readyState !== "closed") {
+      oldConnection.close();
+    }
+    if (activeConnection.readyState === "open") {
+      onOpen();
+    }
+  }
+
+  function toRequestMessage(
+    op: Operation,
+    lastEventId?: string,
+    traceparent?: string
+  ): DataChannelRequestMessage {
+    const { type, input, path, id, context } = op;
+    return {
       id,
       method: type,
       params: {
         input,
         path,
+        ...(lastEventId !== undefined && { lastEventId }),
+        ...(traceparent !== undefined && { traceparent }),
+        ...(type === "subscription" &&
+          typeof context.reliable === "boolean" && {
+            reliable: context.reliable,
+          }),
       },
     };
+  }
+
+  function request(op: Operation, callbacks: TCallbacks): UnsubscribeFn {
+    const { type, id } = op;
+    if (versionMismatchError) {
+      callbacks.error?.(TRPCClientError.from(versionMismatchError));
+      return () => {};
+    }
+    const traceparent = instrumenter.startRequest({ id, path: op.path, type });
+    const envelope = toRequestMessage(op, undefined, traceparent);
+    if (instrumenter.enabled) {
+      instrumenter.setRequestSize(
+        id,
+        frameByteLength((session?.codec ?? jsonCodec).encode(envelope))
+      );
+    }
+    const timeout =
+      typeof op.context.timeout === "number"
+        ? op.context.timeout
+        : opts.timeout;
     pendingRequests[id] = {
       dataChannel: activeConnection,
       type,
-      callbacks,
+      // requests that fail or are stopped end before a response would end them
+      callbacks: {
+        next: (message) => callbacks.next?.(message),
+        error: (err) => {
+          instrumenter.end(id, "error", err);
+          callbacks.error?.(err);
+        },
+        complete: () => {
+          instrumenter.end(id, "cancelled");
+          callbacks.complete?.();
+        },
+      },
       op,
+      traceparent,
+      timer:
+        type !== "subscription" && timeout !== undefined
+          ? setTimeout(() => {
+              cancel()?.callbacks.error?.(
+                TRPCClientError.from(
+                  new TRPCDataChannelTimeoutError(
+                    `Request timed out after ${timeout}ms`,
+                    { timeout }
+                  )
+                )
+              );
+            }, timeout)
+          : undefined,
     };
 
     // enqueue message
     outgoing.push(envelope);
-    dispatch();
+    // operations that skip batching are sent without waiting for others
+    dispatch(op.context.skipBatch ? 0 : undefined);
 
-    return () => {
-      const callbacks = pendingRequests[id]?.callbacks;
-      delete pendingRequests[id];
+    /**
+     * stops the request, letting the handler know if it's already working on it
+     */
+    function cancel() {
+      const req = removePendingRequest(id);
+      const wasQueued = outgoing.some((msg) => msg.id === id);
       outgoing = outgoing.filter((msg) => msg.id !== id);
 
-      callbacks?.complete?.();
-      if (
-        activeConnection.readyState === "open" &&
-        op.type === "subscription"
-      ) {
-        outgoing.push({
-          id,
-          method: "subscription.stop",
-        });
-        dispatch();
+      if (activeConnection.readyState === "open") {
+        if (op.type === "subscription") {
+          outgoing.push({
+            id,
+            method: "subscription.stop",
+          });
+          dispatch();
+        } else if (
+          req &&
+          !wasQueued &&
+          session?.features.includes("cancellation")
+        ) {
+          outgoing.push({
+            id,
+            method: "request.cancel",
+          });
+          dispatch();
+        }
       }
+      return req;
+    }
+
+    return () => {
+      cancel()?.callbacks.complete?.();
     };
   }
   return {
     close: () => {
-      state = "closed";
+      setState("closed");
       closeIfNoPending(activeConnection);
     },
     request,
+    /**
+     * Asks the handler for `count` more chunks of the streamed result of
+     * request `id`
+     */
+    pull(id: number | string, count: number) {
+      if (!pendingRequests[id]?.streaming) {
+        return;
+      }
+      outgoing.push({ id, method: "stream.pull", params: { count } });
+      dispatch(0);
+    },
+    replaceDataChannel,
     getConnection() {
       return activeConnection;
     },
+    /**
+     * Emits the current state, and each state the client moves to
+     */
+    state: observable<DataChannelClientState, never>((observer) => {
+      observer.next(state);
+      stateObservers.add(observer);
+      return () => {
+        stateObservers.delete(observer);
+      };
+    }),
   };
 }
 export type TRPCDataChannelClient = ReturnType<typeof createDataChannelClient>;
 
+/**
+ * What a client's call to `TProcedure` resolves to when the procedure returns an
+ * async iterable, whose chunks tRPC otherwise infers as a serialized `{}`
+ */
+export type inferStreamedProcedureOutput<TProcedure extends AnyProcedure> =
+  TProcedure["_def"]["_output_out"] extends AsyncIterable<infer TChunk>
+    ? AsyncIterableIterator<
+        TProcedure["_def"]["_config"]["transformer"] extends DefaultDataTransformer
+          ? // the chunk's JSON serialized type
+            SerializeObject<{ chunk: TChunk }> extends { chunk: infer U }
+            ? U
+            : never
+          : TChunk
+      >
+    : never;
+
 export interface DataChannelLinkOptions {
   client: TRPCDataChannelClient;
 }
-class TRPCDataChannelClosedError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = "TRPCDataChannelClosedError";
-    Object.setPrototypeOf(this, TRPCDataChannelClosedError.prototype);
-  }
-}
-
 class TRPCSubscriptionEndedError extends Error {
   constructor(message: string) {
     super(message);
@@ -271,16 +1125,38 @@ export function dataChannelLink<TRouter extends AnyRouter>(
         const input = runtime.transformer.serialize(op.input);
 
         let isDone = false;
+        /**
+         * set once a query or mutation's result starts streaming, which is
+         * read from this rather than the observer
+         */
+        let stream: ReturnType<typeof createResultStream> | undefined;
+        let isStopped = false;
         const unsub = client.request(
           { type, path, input, id, context },
           {
             error(err) {
               isDone = true;
-              observer.error(err as TRPCClientError<any>);
+              if (stream) {
+                stream.error(err);
+              } else {
+                observer.error(err as TRPCClientError<any>);
+              }
               unsub();
             },
             complete() {
-              if (!isDone) {
+              if (stream) {
+                if (isStopped) {
+                  stream.end();
+                } else {
+                  stream.error(
+                    TRPCClientError.from(
+                      new TRPCSubscriptionEndedError(
+                        "Operation ended prematurely"
+                      )
+                    )
+                  );
+                }
+              } else if (!isDone) {
                 isDone = true;
                 observer.error(
                   TRPCClientError.from(
@@ -298,7 +1174,38 @@ export function dataChannelLink<TRouter extends AnyRouter>(
               const transformed = transformResult(message, runtime);
 
               if (!transformed.ok) {
-                observer.error(TRPCClientError.from(transformed.error));
+                const error = TRPCClientError.from<TRouter>(transformed.error);
+                if (stream) {
+                  stream.error(error);
+                } else {
+                  observer.error(error);
+                }
+                return;
+              }
+
+              if (stream) {
+                if (transformed.result.type === "stopped") {
+                  isStopped = true;
+                } else if (transformed.result.type === "data") {
+                  stream.push(transformed.result.data);
+                }
+                return;
+              }
+
+              if (
+                op.type !== "subscription" &&
+                transformed.result.type === "started"
+              ) {
+                // the result resolves to an async iterator of its chunks
+                stream = createResultStream({
+                  pull: (count) => client.pull(id, count),
+                  cancel: unsub,
+                });
+                isDone = true;
+                observer.next({
+                  result: { type: "data", data: stream.iterator },
+                });
+                observer.complete();
                 return;
               }
 
@@ -318,7 +1225,10 @@ export function dataChannelLink<TRouter extends AnyRouter>(
         );
         return () => {
           isDone = true;
-          unsub();
+          if (!stream) {
+            // a streamed result is stopped by its reader instead
+            unsub();
+          }
         };
       });
     };
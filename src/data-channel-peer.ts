@@ -0,0 +1,102 @@
+import { AnyRouter, ClientDataTransformerOptions } from "@trpc/server";
+import { CreateTRPCClientOptions, createTRPCProxyClient } from "@trpc/client";
+import {
+  DataChannelHandlerOptions,
+  applyDataChannelHandler,
+} from "./data-channel-handler.js";
+import {
+  DataChannelClientOptions,
+  createDataChannelClient,
+  dataChannelLink,
+} from "./data-channel-link.js";
+import { DEFAULT_MAX_MESSAGE_SIZE } from "./internals/framing.js";
+import { getMultiplexer, multiplexOverhead } from "./internals/multiplex.js";
+import { DataChannelLike } from "./data-channel-like.js";
+
+/**
+ * Tags the frames of requests (sent by clients) and responses (sent by handlers),
+ * so each peer's client and handler only receive the frames meant for them
+ */
+const REQUEST_TAG = "req";
+const RESPONSE_TAG = "res";
+
+export interface DataChannelPeerOptions<
+  TRouter extends AnyRouter,
+  TRemoteRouter extends AnyRouter
+> extends Omit<DataChannelHandlerOptions<TRouter>, "dataChannel" | "namespace">,
+    Omit<
+      DataChannelClientOptions,
+      "dataChannel" | "reconnect" | "namespace" | "onError"
+    > {
+  dataChannel: DataChannelLike;
+  /**
+   * The type of the router the remote peer serves, which types `client`. Only
+   * its type is used, so the type parameter may be given instead.
+   */
+  remoteRouterType?: TRemoteRouter;
+  /**
+   * The transformer used by the remote peer's router
+   */
+  transformer?: ClientDataTransformerOptions;
+}
+
+/**
+ * Serves `router` to, and calls the router of, the remote peer over a single
+ * data channel. The remote peer must also use `createDataChannelPeer`.
+ */
+export function createDataChannelPeer<
+  TRemoteRouter extends AnyRouter,
+  TRouter extends AnyRouter = AnyRouter
+>(opts: DataChannelPeerOptions<TRouter, TRemoteRouter>) {
+  const { dataChannel, remoteRouterType, transformer, onError, ...rest } = opts;
+  const multiplexer = getMultiplexer(dataChannel);
+  // leave room for the tag, so tagged frames still fit the data channel
+  const maxMessageSize =
+    (opts.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE) -
+    Math.max(multiplexOverhead(REQUEST_TAG), multiplexOverhead(RESPONSE_TAG));
+
+  const handler = applyDataChannelHandler<TRouter>({
+    ...rest,
+    onError,
+    maxMessageSize,
+    dataChannel: multiplexer.channel({
+      inbound: REQUEST_TAG,
+      outbound: RESPONSE_TAG,
+    }),
+  });
+  const dataChannelClient = createDataChannelClient({
+    ...rest,
+    maxMessageSize,
+    dataChannel: multiplexer.channel({
+      inbound: RESPONSE_TAG,
+      outbound: REQUEST_TAG,
+    }),
+  });
+  const client = createTRPCProxyClient<TRemoteRouter>({
+    links: [dataChannelLink({ client: dataChannelClient })],
+    transformer,
+    // the transformer option's type depends on the remote router's transformer
+  } as CreateTRPCClientOptions<TRemoteRouter>);
+
+  return {
+    /**
+     * Calls the remote peer's router
+     */
+    client,
+    dataChannelClient,
+    handler,
+    /**
+     * Closes the client, and the underlying data channel
+     */
+    close() {
+      dataChannelClient.close();
+      if (dataChannel.readyState !== "closed") {
+        dataChannel.close();
+      }
+    },
+  };
+}
+export type TRPCDataChannelPeer<
+  TRemoteRouter extends AnyRouter,
+  TRouter extends AnyRouter = AnyRouter
+> = ReturnType<typeof createDataChannelPeer<TRemoteRouter, TRouter>>;
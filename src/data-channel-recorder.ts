@@ -0,0 +1,479 @@
+import { AnyRouter } from "@trpc/server";
+import { createFramer, toFrame } from "./internals/framing.js";
+import { DataChannelCodec, jsonCodec } from "./codecs.js";
+import {
+  DataChannelHandlerOptions,
+  applyDataChannelHandler,
+} from "./data-channel-handler.js";
+import { DataChannelLike } from "./data-channel-like.js";
+import { forwardEvent } from "./internals/forwardEvent.js";
+
+/**
+ * A message recorded by `createDataChannelRecorder`
+ */
+export interface DataChannelTraceEntry {
+  /**
+   * Milliseconds since recording started
+   */
+  time: number;
+  /**
+   * Which peer sent the message
+   */
+  from: "client" | "handler";
+  /**
+   * The decoded message, or batch of messages. Undefined if the message
+   * couldn't be decoded, such as when it was encrypted.
+   */
+  envelope: unknown;
+}
+
+/**
+ * The messages exchanged over a data channel, which may be stored as JSON and
+ * replayed with `replayTrace`
+ */
+export interface DataChannelTrace {
+  version: 1;
+  entries: DataChannelTraceEntry[];
+}
+
+export interface DataChannelRecorderOptions {
+  /**
+   * Codecs the client and handler may negotiate, to decode their messages with.
+   * `jsonCodec` is always supported.
+   */
+  codecs?: DataChannelCodec[];
+}
+
+/**
+ * whether a message is the `hello` that starts the handshake, which only
+ * clients send
+ */
+function isHelloRequest(envelope: unknown) {
+  return (
+    typeof envelope === "object" &&
+    envelope !== null &&
+    "method" in envelope &&
+    envelope.method === "hello" &&
+    "params" in envelope &&
+    typeof envelope.params === "object" &&
+    envelope.params !== null &&
+    "codecs" in envelope.params
+  );
+}
+
+/**
+ * the name of the codec a `hello` response selected, which both peers use for
+ * the messages after it
+ */
+function getSelectedCodec(envelope: unknown) {
+  if (
+    typeof envelope === "object" &&
+    envelope !== null &&
+    "method" in envelope &&
+    envelope.method === "hello" &&
+    "params" in envelope &&
+    typeof envelope.params === "object" &&
+    envelope.params !== null &&
+    "codec" in envelope.params &&
+    typeof envelope.params.codec === "string"
+  ) {
+    return envelope.params.codec;
+  }
+  return undefined;
+}
+
+/**
+ * Decodes the frames sent in each direction over a data channel, following the
+ * codec the peers negotiate
+ */
+function createTraceDecoder(codecs: DataChannelCodec[]) {
+  const framers = { sent: createFramer(), received: createFramer() };
+  let codec = jsonCodec;
+
+  return (direction: "sent" | "received", data: unknown) => {
+    let envelope: unknown;
+    try {
+      const payload = framers[direction].decode(toFrame(data));
+      if (payload === undefined) {
+        // waiting for the remaining chunks of this message
+        return { complete: false as const };
+      }
+      envelope = codec.decode(payload);
+    } catch {
+      return { complete: true as const, envelope: undefined };
+    }
+    const selected = getSelectedCodec(envelope);
+    if (selected !== undefined) {
+      codec = codecs.find((c) => c.name === selected) ?? jsonCodec;
+    }
+    return { complete: true as const, envelope };
+  };
+}
+
+/**
+ * the key of the objects that stand in for values JSON can't hold
+ */
+const TYPE_TAG = "$type";
+
+/**
+ * a copy of a decoded value that JSON can hold, with the values that binary
+ * codecs decode to, and non-finite numbers, tagged so `fromTraceJSON` revives them
+ */
+function toTraceJSON(value: unknown): unknown {
+  if (typeof value === "bigint") {
+    return { [TYPE_TAG]: "bigint", value: value.toString() };
+  }
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    return { [TYPE_TAG]: "number", value: String(value) };
+  }
+  if (value instanceof Uint8Array) {
+    return { [TYPE_TAG]: "Uint8Array", value: Array.from(value) };
+  }
+  if (value instanceof Date) {
+    return { [TYPE_TAG]: "Date", value: toTraceJSON(value.getTime()) };
+  }
+  if (value instanceof Map) {
+    return {
+      [TYPE_TAG]: "Map",
+      value: [...value].map(([key, item]) => [
+        toTraceJSON(key),
+        toTraceJSON(item),
+      ]),
+    };
+  }
+  if (value instanceof Set) {
+    return { [TYPE_TAG]: "Set", value: [...value].map(toTraceJSON) };
+  }
+  if (Array.isArray(value)) {
+    return value.map(toTraceJSON);
+  }
+  if (typeof value === "object" && value !== null) {
+    const object = Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, toTraceJSON(item)])
+    );
+    // objects that happen to have the tag are wrapped, so they aren't revived
+    return TYPE_TAG in object
+      ? { [TYPE_TAG]: "Object", value: object }
+      : object;
+  }
+  return value;
+}
+
+/**
+ * the value `toTraceJSON` made a copy of
+ */
+function fromTraceJSON(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(fromTraceJSON);
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  if (!(TYPE_TAG in value) || !("value" in value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, fromTraceJSON(item)])
+    );
+  }
+  const tagged = value.value;
+  switch (value[TYPE_TAG]) {
+    case "bigint":
+      return BigInt(tagged as string);
+    case "number":
+      return Number(tagged);
+    case "Uint8Array":
+      return Uint8Array.from(tagged as number[]);
+    case "Date":
+      return new Date(fromTraceJSON(tagged) as number);
+    case "Map":
+      return new Map(
+        (tagged as [unknown, unknown][]).map(([key, item]) => [
+          fromTraceJSON(key),
+          fromTraceJSON(item),
+        ])
+      );
+    case "Set":
+      return new Set((tagged as unknown[]).map(fromTraceJSON));
+    case "Object":
+      return Object.fromEntries(
+        Object.entries(tagged as object).map(([key, item]) => [
+          key,
+          fromTraceJSON(item),
+        ])
+      );
+    default:
+      throw new TypeError(
+        `Unknown trace value type ${String(value[TYPE_TAG])}`
+      );
+  }
+}
+
+/**
+ * Serializes a trace as JSON, keeping the `bigint`, `Uint8Array`, `Date`, `Map`
+ * and `Set` values that binary codecs such as `msgpackCodec` decode to. Read it
+ * back with `parseTrace`.
+ */
+export function serializeTrace(trace: DataChannelTrace) {
+  return JSON.stringify({
+    ...trace,
+    entries: trace.entries.map((entry) => ({
+      ...entry,
+      envelope: toTraceJSON(entry.envelope),
+    })),
+  });
+}
+
+/**
+ * Parses a trace serialized with `serializeTrace`, reviving its values
+ */
+export function parseTrace(json: string): DataChannelTrace {
+  const trace = JSON.parse(json) as DataChannelTrace;
+  return {
+    ...trace,
+    entries: trace.entries.map((entry) => ({
+      ...entry,
+      envelope: fromTraceJSON(entry.envelope),
+    })),
+  };
+}
+
+class RecordingDataChannel extends EventTarget implements DataChannelLike {
+  constructor(
+    private readonly channel: DataChannelLike,
+    private readonly record: (
+      direction: "sent" | "received",
+      data: unknown
+    ) => void
+  ) {
+    super();
+    for (const type of [
+      "open",
+      "close",
+      "error",
+      "bufferedamountlow",
+    ] as const) {
+      channel.addEventListener(type, (ev: Event) => {
+        this.dispatchEvent(forwardEvent(ev));
+      });
+    }
+    channel.addEventListener("message", ({ data }: MessageEvent) => {
+      this.record("received", data);
+      this.dispatchEvent(new MessageEvent("message", { data }));
+    });
+  }
+
+  get label() {
+    return this.channel.label;
+  }
+
+  get protocol() {
+    return this.channel.protocol;
+  }
+
+  get id() {
+    return this.channel.id;
+  }
+
+  get readyState() {
+    return this.channel.readyState;
+  }
+
+  get bufferedAmount() {
+    return this.channel.bufferedAmount;
+  }
+
+  get bufferedAmountLowThreshold() {
+    return this.channel.bufferedAmountLowThreshold;
+  }
+
+  set bufferedAmountLowThreshold(value: number) {
+    this.channel.bufferedAmountLowThreshold = value;
+  }
+
+  get binaryType() {
+    return this.channel.binaryType;
+  }
+
+  set binaryType(value: BinaryType) {
+    this.channel.binaryType = value;
+  }
+
+  send(data: string | ArrayBufferView) {
+    this.channel.send(data);
+    this.record("sent", data);
+  }
+
+  close() {
+    this.channel.close();
+  }
+}
+
+/**
+ * Records the messages sent and received over a data channel, decoded, for
+ * debugging. Pass the returned `dataChannel` to `createDataChannelClient` or
+ * `applyDataChannelHandler` in place of the original. Encrypted messages, and
+ * those of namespaces, are recorded without their envelope.
+ */
+export function createDataChannelRecorder(
+  dataChannel: DataChannelLike,
+  opts: DataChannelRecorderOptions = {}
+) {
+  const decode = createTraceDecoder(opts.codecs ?? []);
+  let start = Date.now();
+  let entries: DataChannelTraceEntry[] = [];
+  /**
+   * which peer uses the data channel, known once the handshake starts
+   */
+  let side: "client" | "handler" | undefined;
+
+  const recording = new RecordingDataChannel(dataChannel, (direction, data) => {
+    const decoded = decode(direction, data);
+    if (!decoded.complete) {
+      return;
+    }
+    const { envelope } = decoded;
+    if (isHelloRequest(envelope)) {
+      side = direction === "sent" ? "client" : "handler";
+    }
+    // until the handshake starts, assume the client's data channel is recorded
+    const sentByClient = (direction === "sent") === (side !== "handler");
+    entries.push({
+      time: Date.now() - start,
+      from: sentByClient ? "client" : "handler",
+      envelope,
+    });
+  });
+
+  return {
+    /**
+     * Records the messages sent and received through it
+     */
+    dataChannel: recording as DataChannelLike,
+    /**
+     * The messages recorded so far, which may be stored with `serializeTrace`.
+     * `JSON.stringify` only keeps the values of traces of `jsonCodec`.
+     */
+    getTrace(): DataChannelTrace {
+      return { version: 1, entries: [...entries] };
+    },
+    /**
+     * Forgets the messages recorded so far, and restarts the clock
+     */
+    clear() {
+      entries = [];
+      start = Date.now();
+    },
+  };
+}
+
+/**
+ * Delivers replayed messages to a handler, and collects its responses
+ */
+class ReplayDataChannel extends EventTarget implements DataChannelLike {
+  readonly label = "replay";
+  readonly protocol = "";
+  readonly id = null;
+  readyState: RTCDataChannelState = "open";
+  bufferedAmount = 0;
+  bufferedAmountLowThreshold = 0;
+  binaryType: BinaryType = "arraybuffer";
+
+  constructor(
+    private readonly onSend: (data: string | ArrayBufferView) => void
+  ) {
+    super();
+  }
+
+  receive(data: string | Uint8Array) {
+    this.dispatchEvent(
+      new MessageEvent("message", {
+        data: typeof data === "string" ? data : data.slice().buffer,
+      })
+    );
+  }
+
+  send(data: string | ArrayBufferView) {
+    this.onSend(data);
+  }
+
+  close() {
+    if (this.readyState === "closed") {
+      return;
+    }
+    this.readyState = "closed";
+    this.dispatchEvent(new Event("close"));
+  }
+}
+
+export interface ReplayTraceOptions<TRouter extends AnyRouter>
+  extends Omit<DataChannelHandlerOptions<TRouter>, "dataChannel"> {
+  /**
+   * `recorded` waits between messages as long as the client did, `immediate`
+   * only lets the handler start on each message before sending the next.
+   * Either way, requests wait for the handler to answer the `hello`.
+   * Defaults to `recorded`.
+   */
+  timing?: "recorded" | "immediate";
+}
+
+/**
+ * Replays the messages a client sent in `trace` to a handler of `router`, without
+ * a data channel, and drains the handler. Returns a trace of the replay, whose
+ * handler messages can be compared with those recorded. Messages are encoded
+ * with the codec the handler selects from those recorded and its `codecs`.
+ */
+export async function replayTrace<TRouter extends AnyRouter>(
+  trace: DataChannelTrace,
+  opts: ReplayTraceOptions<TRouter>
+): Promise<DataChannelTrace> {
+  const { timing = "recorded", ...handlerOpts } = opts;
+  const codecs = handlerOpts.codecs ?? [];
+  const start = Date.now();
+  const entries: DataChannelTraceEntry[] = [];
+  const decode = createTraceDecoder(codecs);
+  /**
+   * the codec the handler selected, which the client's messages are encoded with
+   */
+  let codec = jsonCodec;
+  let onHandlerMessage = () => {};
+  const dataChannel = new ReplayDataChannel((data) => {
+    const decoded = decode("sent", data);
+    if (decoded.complete) {
+      entries.push({
+        time: Date.now() - start,
+        from: "handler",
+        envelope: decoded.envelope,
+      });
+      const selected = getSelectedCodec(decoded.envelope);
+      if (selected !== undefined) {
+        codec = codecs.find((c) => c.name === selected) ?? jsonCodec;
+      }
+      onHandlerMessage();
+    }
+  });
+  dataChannel.addEventListener("close", () => onHandlerMessage());
+  const handler = applyDataChannelHandler({ ...handlerOpts, dataChannel });
+
+  for (const { time, from, envelope } of trace.entries) {
+    if (from !== "client" || envelope === undefined) {
+      continue;
+    }
+    const delay = timing === "recorded" ? time - (Date.now() - start) : 0;
+    await new Promise((resolve) => setTimeout(resolve, Math.max(0, delay)));
+    entries.push({ time: Date.now() - start, from: "client", envelope });
+    if (isHelloRequest(envelope)) {
+      // as the client does, waits for the handshake before sending requests
+      const answered = new Promise<void>(
+        (resolve) => (onHandlerMessage = resolve)
+      );
+      // the handshake is always JSON
+      dataChannel.receive(jsonCodec.encode(envelope));
+      await answered;
+      onHandlerMessage = () => {};
+    } else {
+      dataChannel.receive(codec.encode(envelope));
+    }
+  }
+
+  await handler.drain();
+  return { version: 1, entries };
+}
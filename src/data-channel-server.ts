@@ -0,0 +1,153 @@
+import { AnyRouter } from "@trpc/server";
+import {
+  DataChannelHandlerOptions,
+  TRPCDataChannelHandler,
+  applyDataChannelHandler,
+} from "./data-channel-handler.js";
+import { DataChannelLike } from "./data-channel-like.js";
+
+export type DataChannelServerOptions<TRouter extends AnyRouter> = Omit<
+  DataChannelHandlerOptions<TRouter>,
+  "dataChannel" | "peerConnection"
+>;
+
+/**
+ * A data channel that a server is handling
+ */
+export interface DataChannelServerConnection {
+  dataChannel: DataChannelLike;
+  peerConnection?: RTCPeerConnection;
+  /**
+   * The number of active subscriptions
+   */
+  subscriptions: number;
+}
+
+function isPeerConnection(
+  target: RTCPeerConnection | DataChannelLike
+): target is RTCPeerConnection {
+  return "createDataChannel" in target;
+}
+
+/**
+ * Serves one router to many peers, handling each data channel attached to it
+ */
+export function createDataChannelServer<TRouter extends AnyRouter>(
+  opts: DataChannelServerOptions<TRouter>
+) {
+  const connections = new Map<
+    DataChannelLike,
+    {
+      peerConnection?: RTCPeerConnection;
+      handler: TRPCDataChannelHandler;
+      onClose: () => void;
+    }
+  >();
+  /**
+   * `datachannel` listeners, by the peer connection they were added to
+   */
+  const peerConnections = new Map<
+    RTCPeerConnection,
+    (ev: RTCDataChannelEvent) => void
+  >();
+
+  function attachDataChannel(
+    dataChannel: DataChannelLike,
+    peerConnection?: RTCPeerConnection
+  ) {
+    if (connections.has(dataChannel) || dataChannel.readyState === "closed") {
+      return;
+    }
+    const handler = applyDataChannelHandler({
+      ...opts,
+      dataChannel,
+      peerConnection,
+    });
+    // closed data channels are forgotten, as they can't be reopened
+    const onClose = () => detachDataChannel(dataChannel);
+    dataChannel.addEventListener("close", onClose, { once: true });
+    connections.set(dataChannel, { peerConnection, handler, onClose });
+  }
+
+  function detachDataChannel(dataChannel: DataChannelLike) {
+    const connection = connections.get(dataChannel);
+    if (!connection) {
+      return;
+    }
+    connections.delete(dataChannel);
+    dataChannel.removeEventListener("close", connection.onClose);
+    connection.handler.dispose();
+  }
+
+  function detachPeerConnection(peerConnection: RTCPeerConnection) {
+    const onDataChannel = peerConnections.get(peerConnection);
+    if (onDataChannel) {
+      peerConnection.removeEventListener("datachannel", onDataChannel);
+      peerConnections.delete(peerConnection);
+    }
+    for (const [dataChannel, connection] of connections) {
+      if (connection.peerConnection === peerConnection) {
+        detachDataChannel(dataChannel);
+      }
+    }
+  }
+
+  return {
+    /**
+     * Handles a data channel, or every data channel that a peer connection
+     * receives from now on
+     */
+    attach(target: RTCPeerConnection | DataChannelLike) {
+      if (!isPeerConnection(target)) {
+        attachDataChannel(target);
+        return;
+      }
+      if (peerConnections.has(target)) {
+        return;
+      }
+      const onDataChannel = ({ channel }: RTCDataChannelEvent) =>
+        attachDataChannel(channel, target);
+      target.addEventListener("datachannel", onDataChannel);
+      peerConnections.set(target, onDataChannel);
+    },
+    /**
+     * Stops handling a data channel, or a peer connection's data channels,
+     * without closing them. Their subscriptions are stopped.
+     */
+    detach(target: RTCPeerConnection | DataChannelLike) {
+      if (isPeerConnection(target)) {
+        detachPeerConnection(target);
+      } else {
+        detachDataChannel(target);
+      }
+    },
+    /**
+     * The data channels currently being handled
+     */
+    get connections(): DataChannelServerConnection[] {
+      return Array.from(
+        connections,
+        ([dataChannel, { peerConnection, handler }]) => ({
+          dataChannel,
+          peerConnection,
+          subscriptions: handler.stats.subscriptions,
+        })
+      );
+    },
+    /**
+     * Stops handling every data channel and peer connection, stopping all
+     * subscriptions. The data channels are left open.
+     */
+    close() {
+      for (const peerConnection of peerConnections.keys()) {
+        detachPeerConnection(peerConnection);
+      }
+      for (const dataChannel of connections.keys()) {
+        detachDataChannel(dataChannel);
+      }
+    },
+  };
+}
+export type TRPCDataChannelServer<TRouter extends AnyRouter> = ReturnType<
+  typeof createDataChannelServer<TRouter>
+>;
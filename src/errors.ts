@@ -0,0 +1,151 @@
+/**
+ * Thrown when a message can't be sent (or reassembled) because it exceeds the
+ * configured `maxPayloadSize`, even after being split into chunks.
+ */
+export class TRPCDataChannelMessageTooLargeError extends Error {
+  /**
+   * Size of the offending message, in bytes
+   */
+  readonly size: number;
+  /**
+   * The `maxPayloadSize` that was exceeded, in bytes
+   */
+  readonly limit: number;
+
+  constructor(message: string, opts: { size: number; limit: number }) {
+    super(message);
+    this.name = "TRPCDataChannelMessageTooLargeError";
+    this.size = opts.size;
+    this.limit = opts.limit;
+    Object.setPrototypeOf(this, TRPCDataChannelMessageTooLargeError.prototype);
+  }
+}
+
+/**
+ * Thrown when a query or mutation receives no response within its timeout
+ */
+export class TRPCDataChannelTimeoutError extends Error {
+  /**
+   * The timeout that elapsed, in milliseconds
+   */
+  readonly timeout: number;
+
+  constructor(message: string, opts: { timeout: number }) {
+    super(message);
+    this.name = "TRPCDataChannelTimeoutError";
+    this.timeout = opts.timeout;
+    Object.setPrototypeOf(this, TRPCDataChannelTimeoutError.prototype);
+  }
+}
+
+/**
+ * Thrown when a request fails because its data channel closed, or was replaced,
+ * before the request was answered
+ */
+export class TRPCDataChannelClosedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TRPCDataChannelClosedError";
+    Object.setPrototypeOf(this, TRPCDataChannelClosedError.prototype);
+  }
+}
+
+/**
+ * Thrown when the client and handler speak different versions of the protocol
+ */
+export class TRPCDataChannelVersionMismatchError extends Error {
+  /**
+   * The protocol version spoken locally
+   */
+  readonly version: number;
+  /**
+   * The protocol version spoken by the remote peer, undefined if it predates
+   * versioning
+   */
+  readonly remoteVersion: number | undefined;
+
+  constructor(
+    message: string,
+    opts: { version: number; remoteVersion: number | undefined }
+  ) {
+    super(message);
+    this.name = "TRPCDataChannelVersionMismatchError";
+    this.version = opts.version;
+    this.remoteVersion = opts.remoteVersion;
+    Object.setPrototypeOf(this, TRPCDataChannelVersionMismatchError.prototype);
+  }
+}
+
+/**
+ * Why an encrypted data channel rejected a frame, or failed to exchange keys
+ * - `tampered` if a frame failed authentication, as it was modified or encrypted with another key
+ * - `replayed` if a frame's sequence number was already received
+ * - `key-exchange` if the handshake was malformed, or the remote peer's key wasn't verified
+ */
+export type TRPCDataChannelEncryptionErrorReason =
+  | "tampered"
+  | "replayed"
+  | "key-exchange";
+
+/**
+ * Emitted by an encrypted data channel's `error` event, when it rejects a
+ * frame or fails to exchange keys
+ */
+export class TRPCDataChannelEncryptionError extends Error {
+  readonly reason: TRPCDataChannelEncryptionErrorReason;
+
+  constructor(
+    message: string,
+    opts: { reason: TRPCDataChannelEncryptionErrorReason; cause?: unknown }
+  ) {
+    super(message, { cause: opts.cause });
+    this.name = "TRPCDataChannelEncryptionError";
+    this.reason = opts.reason;
+    Object.setPrototypeOf(this, TRPCDataChannelEncryptionError.prototype);
+  }
+}
+
+/**
+ * Reported when a data channel errors, with the details of its `RTCError`
+ * where the data channel provides them
+ */
+export class TRPCDataChannelError extends Error {
+  /**
+   * What failed, such as `"sctp-failure"` or `"data-channel-failure"`
+   */
+  readonly errorDetail: RTCErrorDetailType | undefined;
+  /**
+   * The SCTP cause code, if `errorDetail` is `"sctp-failure"`
+   */
+  readonly sctpCauseCode: number | undefined;
+  /**
+   * The DTLS alerts received and sent, if `errorDetail` is `"dtls-failure"`
+   */
+  readonly receivedAlert: number | undefined;
+  readonly sentAlert: number | undefined;
+  /**
+   * The offending line, if `errorDetail` is `"sdp-syntax-error"`
+   */
+  readonly sdpLineNumber: number | undefined;
+
+  constructor(
+    message: string,
+    opts: {
+      errorDetail?: RTCErrorDetailType;
+      sctpCauseCode?: number;
+      receivedAlert?: number;
+      sentAlert?: number;
+      sdpLineNumber?: number;
+      cause?: unknown;
+    } = {}
+  ) {
+    super(message, { cause: opts.cause });
+    this.name = "TRPCDataChannelError";
+    this.errorDetail = opts.errorDetail;
+    this.sctpCauseCode = opts.sctpCauseCode;
+    this.receivedAlert = opts.receivedAlert;
+    this.sentAlert = opts.sentAlert;
+    this.sdpLineNumber = opts.sdpLineNumber;
+    Object.setPrototypeOf(this, TRPCDataChannelError.prototype);
+  }
+}
@@ -0,0 +1,107 @@
+import {
+  DataChannelAttributes,
+  DataChannelSpan,
+  DataChannelSpanContext,
+  DataChannelTracer,
+} from "./internals/instrumentation.js";
+
+/**
+ * A span that has ended, as recorded by `createInMemoryExporter`
+ */
+export interface FinishedSpan {
+  name: string;
+  kind: number | undefined;
+  spanContext: DataChannelSpanContext;
+  attributes: DataChannelAttributes;
+  links: { context: DataChannelSpanContext }[];
+  events: { name: string; attributes?: DataChannelAttributes }[];
+  status: { code: number; message?: string };
+  exceptions: (Error | string)[];
+  /**
+   * Milliseconds since the epoch
+   */
+  startTime: number;
+  endTime: number;
+}
+
+function randomHex(bytes: number) {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+/**
+ * Creates a tracer that records the spans of clients and handlers in memory,
+ * for asserting on in tests. Each span starts a new trace.
+ */
+export function createInMemoryExporter() {
+  const finishedSpans: FinishedSpan[] = [];
+
+  const tracer: DataChannelTracer = {
+    startSpan(name, options = {}) {
+      const spanContext: DataChannelSpanContext = {
+        traceId: randomHex(16),
+        spanId: randomHex(8),
+        traceFlags: 1,
+      };
+      const recorded: Omit<FinishedSpan, "endTime"> = {
+        name,
+        kind: options.kind,
+        spanContext,
+        attributes: { ...options.attributes },
+        links: options.links ?? [],
+        events: [],
+        // `SpanStatusCode.UNSET`
+        status: { code: 0 },
+        exceptions: [],
+        startTime: Date.now(),
+      };
+      let ended = false;
+      const span: DataChannelSpan = {
+        spanContext: () => spanContext,
+        setAttribute(key, value) {
+          recorded.attributes[key] = value;
+          return span;
+        },
+        addEvent(name, attributes) {
+          recorded.events.push({ name, attributes });
+          return span;
+        },
+        setStatus(status) {
+          recorded.status = status;
+          return span;
+        },
+        recordException(exception) {
+          recorded.exceptions.push(exception);
+        },
+        end() {
+          if (ended) {
+            return;
+          }
+          ended = true;
+          finishedSpans.push({ ...recorded, endTime: Date.now() });
+        },
+      };
+      return span;
+    },
+  };
+
+  return {
+    /**
+     * Pass as the `tracer` of clients and handlers
+     */
+    tracer,
+    /**
+     * The spans that have ended, in the order they ended
+     */
+    getFinishedSpans(): FinishedSpan[] {
+      return [...finishedSpans];
+    },
+    /**
+     * Forgets the spans that have ended
+     */
+    reset() {
+      finishedSpans.length = 0;
+    },
+  };
+}
@@ -1,11 +1,65 @@
 import { expect } from "@esm-bundle/chai";
-import { createTRPCProxyClient } from "@trpc/client";
-import { appRouter, AppRouter, Message } from "./__fixtures__/router.js";
-import { establishConnection } from "./__fixtures__/util.js";
-import { applyDataChannelHandler } from "./data-channel-handler.js";
+import { TRPCClientError, createTRPCProxyClient } from "@trpc/client";
+import { TRPCError } from "@trpc/server";
+import { TRPCResponseMessage } from "@trpc/server/rpc";
 import {
+  appRouter,
+  AppRouter,
+  Message,
+  slowQueryAborts,
+  streamQueryFinishes,
+} from "./__fixtures__/router.js";
+import {
+  createFakeNodeDataChannel,
+  establishConnection,
+  startRawSession,
+  waitForChannel,
+} from "./__fixtures__/util.js";
+import { msgpackCodec } from "./codecs.js";
+import {
+  CreateDataChannelContextOptions,
+  applyDataChannelHandler,
+} from "./data-channel-handler.js";
+import { createDataChannelPeer } from "./data-channel-peer.js";
+import { createDataChannelServer } from "./data-channel-server.js";
+import { createLoopbackDataChannelPair } from "./loopback-data-channel.js";
+import { createInMemoryExporter } from "./in-memory-exporter.js";
+import {
+  DataChannelTrace,
+  DataChannelTraceEntry,
+  createDataChannelRecorder,
+  parseTrace,
+  replayTrace,
+  serializeTrace,
+} from "./data-channel-recorder.js";
+import { DataChannelRequestEvent } from "./internals/instrumentation.js";
+import { createSendQueue } from "./internals/sendQueue.js";
+import { getDataChannelError } from "./internals/dataChannelError.js";
+import {
+  DataChannelEncryptionOptions,
+  createEncryptedDataChannel,
+} from "./internals/encryption.js";
+import {
+  DataChannelLike,
+  DataChannelLikeEventType,
+} from "./data-channel-like.js";
+import {
+  fromNodeDataChannel,
+  fromWrtcDataChannel,
+} from "./data-channel-adapters.js";
+import {
+  TRPCDataChannelClosedError,
+  TRPCDataChannelError,
+  TRPCDataChannelEncryptionError,
+  TRPCDataChannelVersionMismatchError,
+} from "./errors.js";
+import {
+  DataChannelClientState,
+  DataChannelClientStatus,
+  TRPCDataChannelClient,
   createDataChannelClient,
   dataChannelLink,
+  inferStreamedProcedureOutput,
 } from "./data-channel-link.js";
 
 describe("trpc-webrtc", () => {
@@ -54,6 +108,248 @@ describe("trpc-webrtc", () => {
     expect(actual).to.deep.equal(expected);
   });
 
+  it("should reject malformed messages individually", async () => {
+    applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+    });
+
+    const session = startRawSession(tx);
+    tx.send(
+      JSON.stringify([
+        {
+          id: 1,
+          method: "query",
+          params: { path: "testQuery", input: { id: "world" } },
+        },
+        { id: 2, method: "unknown" },
+        { id: 3, method: "query", params: { path: "x".repeat(1000) } },
+      ])
+    );
+
+    const responses = new Map(
+      (await session.received(4)).map((response) => [response.id, response])
+    );
+    expect(responses.get(1)?.result?.data).to.deep.equal({ hello: "world" });
+    expect(responses.get(2)?.error?.data.code).to.equal("METHOD_NOT_SUPPORTED");
+    expect(responses.get(3)?.error?.data.code).to.equal("BAD_REQUEST");
+  });
+
+  it("should limit partially received messages", async () => {
+    const errors: TRPCError[] = [];
+    applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+      maxPartialMessages: 1,
+      partialMessageTimeout: 50,
+      onError: ({ error }) => errors.push(error),
+    });
+
+    const session = startRawSession(tx);
+    // the first chunks of messages that are never finished
+    tx.send('\u001e1:0:2:{"id":1,');
+    tx.send('\u001e2:0:2:{"id":2,');
+    const [, response] = await session.received(2);
+    expect(response.error?.data.code).to.equal("PARSE_ERROR");
+    expect(errors[0].cause?.message).to.equal(
+      "More than 1 messages are partially received"
+    );
+
+    // the stale message is discarded, making room for another
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    tx.send('\u001e3:0:2:{"id":3,"method":"query",');
+    tx.send(
+      '\u001e3:1:2:"params":{"path":"testQuery","input":{"id":"world"}}}'
+    );
+    const [, , result] = await session.received(3);
+    expect(result.id).to.equal(3);
+    expect(result.result?.data).to.deep.equal({ hello: "world" });
+  });
+
+  it("should reject requests of invalid ids", async () => {
+    applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+    });
+
+    const session = startRawSession(tx);
+    const params = { path: "testQuery", input: { id: "world" } };
+    tx.send(
+      JSON.stringify([
+        { id: { nested: 1 }, method: "query", params },
+        { id: true, method: "query", params },
+      ])
+    );
+
+    const responses = (await session.received(3)).slice(1);
+    expect(responses.map(({ id }) => id)).to.deep.equal([null, null]);
+    for (const { error } of responses) {
+      expect(error?.data.code).to.equal("BAD_REQUEST");
+      expect(error?.message).to.equal("Invalid request id");
+    }
+  });
+
+  it("should reject inputs nested deeper than the maxDepth", async () => {
+    applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+      maxDepth: 4,
+    });
+
+    const session = startRawSession(tx);
+    tx.send(
+      JSON.stringify({
+        id: 1,
+        method: "query",
+        params: { path: "testQuery", input: { id: [[[["world"]]]] } },
+      })
+    );
+
+    const [, response] = await session.received(2);
+    expect(response.id).to.equal(1);
+    expect(response.error?.data.code).to.equal("BAD_REQUEST");
+    expect(response.error?.message).to.equal(
+      "Input is nested deeper than the maxDepth of 4"
+    );
+  });
+
+  it("should fail to decode deeply nested MessagePack, without overflowing the stack", async () => {
+    applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+      codecs: [msgpackCodec],
+    });
+
+    const session = startRawSession(tx, { codecs: ["msgpack", "json"] });
+    await session.received(1);
+    // arrays of a single item, nested 100,000 deep
+    const payload = new Uint8Array(100_001).fill(0x91);
+    payload[payload.length - 1] = 0xc0;
+    tx.send(payload);
+
+    const [, response] = await session.received(2);
+    expect(response.id).to.equal(null);
+    expect(response.error?.data.code).to.equal("PARSE_ERROR");
+  });
+
+  it("should only encode bigints that fit in 64 bits as MessagePack", () => {
+    const max = 2n ** 64n - 1n;
+    const min = -(2n ** 63n);
+    expect(msgpackCodec.decode(msgpackCodec.encode(max))).to.equal(max);
+    expect(msgpackCodec.decode(msgpackCodec.encode(min))).to.equal(min);
+    expect(() => msgpackCodec.encode(max + 1n)).to.throw(
+      RangeError,
+      "Unable to encode 18446744073709551616, as MessagePack integers are at most 64 bits"
+    );
+    expect(() => msgpackCodec.encode({ value: min - 1n })).to.throw(
+      RangeError,
+      /at most 64 bits/
+    );
+  });
+
+  it("should tie parse errors to the requests of undecodable messages", async () => {
+    const errors: TRPCError[] = [];
+    applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+      onError: ({ error }) => errors.push(error),
+    });
+
+    const session = startRawSession(tx);
+    const batch = JSON.stringify([
+      {
+        id: 1,
+        method: "query",
+        params: {
+          path: "testQuery",
+          // inputs that look like requests aren't mistaken for them
+          input: {
+            id: '{"id":7,"method":"query"',
+            nested: { id: 9, method: "query" },
+          },
+        },
+      },
+      { id: 2, method: "mutation", params: { path: "addToTestSubscription" } },
+    ]);
+    // cut short, so it can't be decoded
+    tx.send(batch.slice(0, -10));
+    tx.send("not json");
+
+    const responses = await session.received(4);
+    expect(responses.slice(1).map(({ id }) => id)).to.deep.equal([1, 2, null]);
+    expect(responses[1].error?.data.code).to.equal("PARSE_ERROR");
+    expect(responses[1].error?.message).to.not.equal("PARSE_ERROR");
+    expect(errors[0].cause).to.be.instanceOf(SyntaxError);
+  });
+
+  it("should report unmatched responses and protocol errors", async () => {
+    const unmatched: TRPCResponseMessage[] = [];
+    const protocolErrors: unknown[] = [];
+    createDataChannelClient({
+      dataChannel: tx,
+      onUnmatchedResponse: ({ response }) => unmatched.push(response),
+      onProtocolError: ({ error }) => protocolErrors.push(error),
+    });
+
+    // answers the client's hello as a handler would, then misbehaves
+    await new Promise((resolve) =>
+      rx.addEventListener("message", resolve, { once: true })
+    );
+    rx.send(
+      JSON.stringify({
+        id: null,
+        method: "hello",
+        params: { version: 1, features: ["batching"], codec: "json" },
+      })
+    );
+    rx.send(JSON.stringify({ id: 42, result: { type: "data", data: 1 } }));
+    rx.send(
+      JSON.stringify({
+        id: null,
+        error: {
+          message: "Unexpected token",
+          code: -32700,
+          data: { code: "PARSE_ERROR" },
+        },
+      })
+    );
+    rx.send("not json");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(unmatched.map(({ id }) => id)).to.deep.equal([42, null]);
+    expect(protocolErrors).to.have.length(2);
+    expect(protocolErrors[0]).to.be.instanceOf(TRPCClientError);
+    expect(protocolErrors[0]).to.match(/Unexpected token/);
+    expect(protocolErrors[1]).to.be.instanceOf(SyntaxError);
+  });
+
+  it("should report the details of RTCErrors", () => {
+    const rtcError = Object.assign(new DOMException("", "OperationError"), {
+      errorDetail: "sctp-failure",
+      sctpCauseCode: 12,
+      receivedAlert: null,
+      sentAlert: null,
+      sdpLineNumber: null,
+    });
+    const error = getDataChannelError(
+      Object.assign(new Event("error"), { error: rtcError })
+    );
+
+    expect(error).to.be.instanceOf(TRPCDataChannelError);
+    expect(error).to.include({
+      message: "RTCDataChannel error: sctp-failure",
+      errorDetail: "sctp-failure",
+      sctpCauseCode: 12,
+      receivedAlert: undefined,
+      cause: rtcError,
+    });
+    expect(
+      getDataChannelError(
+        Object.assign(new Event("error"), { error: "Transport closed" })
+      )
+    ).to.include({ message: "Transport closed" });
+  });
+
   it("should handle queries over connected data channels", async () => {
     const handler = applyDataChannelHandler({
       dataChannel: rx,
@@ -75,187 +371,1688 @@ describe("trpc-webrtc", () => {
     } satisfies typeof response);
   });
 
-  it("should handle subscriptions over connected data channels", async () => {
+  it("should create context for each connection", async () => {
+    let contextOpts: CreateDataChannelContextOptions | undefined;
     const handler = applyDataChannelHandler({
       dataChannel: rx,
+      peerConnection: server,
       router: appRouter,
+      createContext: (opts) => {
+        contextOpts = opts;
+        return {};
+      },
     });
 
     const client = createTRPCProxyClient<AppRouter>({
       links: [
         dataChannelLink({
-          client: createDataChannelClient({ dataChannel: tx }),
+          client: createDataChannelClient({
+            dataChannel: tx,
+            auth: { token: "secret" },
+          }),
         }),
       ],
     });
 
-    const expectedMessages: Message[] = [
-      {
-        id: "1",
-        channel: "test",
-        content: "hello",
-      },
-      {
-        id: "2",
-        channel: "test",
-        content: "there",
-      },
-      {
-        id: "3",
-        channel: "test",
-        content: "world",
+    await client.testQuery.query({ id: "world" });
+
+    expect(contextOpts?.dataChannel).to.equal(rx);
+    expect(contextOpts?.peerConnection).to.equal(server);
+    expect(contextOpts?.info).to.deep.equal({
+      label: rx.label,
+      protocol: rx.protocol,
+      id: rx.id,
+      auth: { token: "secret" },
+    });
+  });
+
+  it("should reject clients of another protocol version", async () => {
+    let error: TRPCError | undefined;
+    const handler = applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+      onError: (opts) => {
+        error = opts.error;
       },
-    ];
+    });
 
-    // this subscription API isn't very nice :(
-    // here, we track
-    // 1) when the subscription is created and ACKed
-    // 2) when the expected data arrives
-    // 3) when the subscription is destroyed and ACKed
-    const subscriptionPromise = new Promise<{ data: Promise<Message[]> }>(
-      (resolveSubscription, rejectSubscription) => {
-        const dataPromise = new Promise<Message[]>(
-          (resolveData, rejectData) => {
-            let count = 0;
-            const messages: Message[] = [];
-            const subscription = client.testSubscription.subscribe(
-              { channel: "test" },
-              {
-                onError(err) {
-                  // reject both, something went wrong
-                  rejectSubscription(err);
-                  rejectData(err);
-                },
-                onStarted() {
-                  // the subscription is setup, complete the outer promise
-                  resolveSubscription({ data: dataPromise });
-                },
-                onData(data) {
-                  messages.push(data);
-                  count++;
-                  if (count >= expectedMessages.length) {
-                    // when we've got the expected amount of messages, unsubscribe
-                    subscription.unsubscribe();
-                  }
-                },
-                onComplete() {
-                  // when we've unsubscribed successfully, complete the inner promise
-                  resolveData(messages);
-                },
-              }
-            );
-          }
-        );
-      }
-    );
+    const session = startRawSession(tx, { version: 0, features: [] });
 
-    // wait for the subscription to connect
-    const subscriptionDataPromise = await subscriptionPromise;
+    const [ack] = await session.received(1);
+    expect(ack).to.deep.include({ method: "hello" });
+    expect(error?.code).to.equal("BAD_REQUEST");
+    expect(error?.cause).to.be.instanceOf(TRPCDataChannelVersionMismatchError);
+  });
 
-    // send the events to create subscription data
-    const expectedMessageResults = await Promise.all(
-      expectedMessages.map((expected) =>
-        client.addToTestSubscription.mutate(expected)
-      )
-    );
+  it("should start a new session when the client says hello again", async () => {
+    const handler = applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+    });
 
-    // assert that the events sent
-    expect(expectedMessageResults).to.deep.equal(expectedMessages);
+    const session = startRawSession(tx);
+    await session.received(1);
+    tx.send(
+      JSON.stringify({
+        id: 1,
+        method: "subscription",
+        params: { path: "testSubscription", input: { channel: "hello" } },
+      })
+    );
+    await session.received(2);
+    expect(handler.stats.subscriptions).to.equal(1);
 
-    // wait for the data via the subscription
-    const subscriptionResults = await subscriptionDataPromise.data;
+    // as a client whose data channel reopened does
+    tx.send(
+      JSON.stringify({
+        id: null,
+        method: "hello",
+        params: { version: 1, features: ["chunking"], codecs: ["json"] },
+      })
+    );
+    const [, , hello] = await session.received(3);
 
-    // assert that the data arrived
-    expect(subscriptionResults).to.deep.equal(expectedMessages);
+    expect(hello).to.deep.include({
+      method: "hello",
+      params: { version: 1, features: ["chunking"], codec: "json" },
+    });
+    expect(handler.stats.subscriptions).to.equal(0);
   });
 
-  it("should error if disconnected", async () => {
-    const handler = applyDataChannelHandler({
+  it("should report contexts that can't be created", async () => {
+    applyDataChannelHandler({
       dataChannel: rx,
       router: appRouter,
+      createContext: ({ info }) => {
+        // thrown synchronously, before the context is awaited
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: `Invalid token ${JSON.stringify(info.auth)}`,
+        });
+      },
     });
 
+    const protocolErrors: unknown[] = [];
+    const clientErrors: unknown[] = [];
     const client = createTRPCProxyClient<AppRouter>({
       links: [
         dataChannelLink({
-          client: createDataChannelClient({ dataChannel: tx }),
+          client: createDataChannelClient({
+            dataChannel: tx,
+            auth: "expired",
+            onProtocolError: ({ error }) => protocolErrors.push(error),
+            onError: ({ error }) => clientErrors.push(error),
+          }),
         }),
       ],
     });
 
-    tx.close();
-
-    let error = null;
-    try {
-      await client.testQuery.query({ id: "world" });
-    } catch (e) {
-      error = e;
-    }
+    const error = await client.testQuery.query({ id: "world" }).then(
+      () => null,
+      (err: TRPCClientError<AppRouter>) => err
+    );
 
-    expect(error).to.be.an("Error");
-    expect(error).to.match(/DataChannel closed prematurely/);
+    expect(error).to.be.instanceOf(TRPCClientError);
+    expect(error?.cause).not.to.be.instanceOf(
+      TRPCDataChannelVersionMismatchError
+    );
+    expect(clientErrors).to.deep.equal([]);
+    expect(protocolErrors).to.have.length(1);
+    expect(protocolErrors[0]).to.include({
+      message: 'Invalid token "expired"',
+    });
+    expect(
+      (protocolErrors[0] as TRPCClientError<AppRouter>).data?.code
+    ).to.equal("UNAUTHORIZED");
   });
 
-  it("should survive reconnection on the server", async () => {
-    const didCloseRx = new Promise<void>((resolve) => {
-      rx.addEventListener("close", () => resolve(), { once: true });
+  it("should handle queries over a loopback data channel pair", async () => {
+    const [loopbackTx, loopbackRx] = createLoopbackDataChannelPair({
+      latency: () => Math.random() * 10,
+      reorder: 0.5,
+      maxMessageSize: 1024,
     });
-
     const handler = applyDataChannelHandler({
-      dataChannel: rx,
+      dataChannel: loopbackRx,
       router: appRouter,
+      maxMessageSize: 1024,
     });
 
     const client = createTRPCProxyClient<AppRouter>({
       links: [
         dataChannelLink({
-          client: createDataChannelClient({ dataChannel: tx }),
+          client: createDataChannelClient({
+            dataChannel: loopbackTx,
+            maxMessageSize: 1024,
+          }),
         }),
       ],
     });
 
-    const normalResponse = await client.testQuery.query({ id: "world" });
+    const [response, largeResponse] = await Promise.all([
+      client.testQuery.query({ id: "world" }),
+      client.testLargeQuery.query({ length: 10_000 }),
+    ]);
 
-    expect(normalResponse).to.deep.equal({
-      hello: "world",
-    } satisfies typeof normalResponse);
+    expect(response).to.deep.equal({ hello: "world" });
+    expect(largeResponse).to.equal("x".repeat(10_000));
+  });
 
-    rx.dispatchEvent(new Event("close"));
-    rx.dispatchEvent(new Event("open"));
+  describe("send queue", () => {
+    async function openLoopbackPair() {
+      const [sender, receiver] = createLoopbackDataChannelPair({ latency: 10 });
+      await new Promise((resolve) =>
+        sender.addEventListener("open", resolve, { once: true })
+      );
+      const received: unknown[] = [];
+      receiver.addEventListener("message", ({ data }: MessageEvent) => {
+        received.push(data);
+      });
+      return { sender, received };
+    }
 
-    await didCloseRx;
+    function delay(ms: number) {
+      return new Promise((resolve) => setTimeout(resolve, ms));
+    }
 
-    const reconnectedResponse = await client.testQuery.query({ id: "world" });
+    it("should pause at the highWaterMark and resume on bufferedamountlow", async () => {
+      const { sender, received } = await openLoopbackPair();
+      const queue = createSendQueue(sender, {
+        highWaterMark: 10,
+        lowWaterMark: 0,
+      });
 
-    expect(reconnectedResponse).to.deep.equal({
-      hello: "world",
-    } satisfies typeof reconnectedResponse);
+      queue.enqueue(["12345678", "abcdefgh", "ABCDEFGH"]);
+      expect(sender.bufferedAmount).to.equal(16);
+      expect(queue.size).to.equal(1);
+
+      await new Promise((resolve) =>
+        sender.addEventListener("bufferedamountlow", resolve, { once: true })
+      );
+      expect(queue.size).to.equal(0);
+      await delay(20);
+      expect(received).to.deep.equal(["12345678", "abcdefgh", "ABCDEFGH"]);
+    });
+
+    it("should retry frames that fail to send", async () => {
+      const { sender, received } = await openLoopbackPair();
+      const queue = createSendQueue(sender);
+      const send = sender.send.bind(sender);
+      let failures = 1;
+      sender.send = (data) => {
+        if (failures-- > 0) {
+          throw new DOMException("Failed to send", "OperationError");
+        }
+        send(data);
+      };
+
+      expect(() => queue.enqueue(["a", "b"])).to.throw(DOMException);
+      queue.enqueue(["c"]);
+      await delay(20);
+      expect(received).to.deep.equal(["a", "b", "c"]);
+    });
+
+    for (const [policy, accepted, expected] of [
+      ["drop-oldest", true, ["first", "new"]],
+      ["drop-newest", false, ["first", "old"]],
+      ["error", false, ["first"]],
+    ] as const) {
+      it(`should apply the ${policy} policy when full`, async () => {
+        const { sender, received } = await openLoopbackPair();
+        const queue = createSendQueue(sender, {
+          highWaterMark: 0,
+          lowWaterMark: 0,
+          maxQueueSize: 1,
+        });
+
+        // fills the data channel's buffer, so what follows is queued
+        queue.enqueue(["first"]);
+        expect(queue.enqueue(["old"], { key: 1, policy })).to.equal(true);
+        expect(queue.enqueue(["new"], { key: 1, policy })).to.equal(accepted);
+
+        await delay(50);
+        expect(received).to.deep.equal(expected);
+      });
+    }
   });
 
-  it("should survive reconnection on the client", async () => {
+  it("should handle queries over adapted data channels", async () => {
     const handler = applyDataChannelHandler({
-      dataChannel: rx,
+      dataChannel: fromWrtcDataChannel(rx),
       router: appRouter,
     });
 
-    const didCloseTx = new Promise<void>((resolve) => {
-      tx.addEventListener("close", () => resolve(), { once: true });
+    const client = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({
+            dataChannel: fromWrtcDataChannel(tx),
+          }),
+        }),
+      ],
+    });
+
+    const response = await client.testQuery.query({ id: "world" });
+
+    expect(response).to.deep.equal({ hello: "world" });
+  });
+
+  it("should handle queries over adapted node-datachannel data channels", async () => {
+    const fake = createFakeNodeDataChannel(rx);
+    const dataChannel = fromNodeDataChannel(fake.channel);
+    const errors: TRPCError[] = [];
+    applyDataChannelHandler({
+      dataChannel,
+      router: appRouter,
+      codecs: [msgpackCodec],
+      lowWaterMark: 1024,
+      onError: ({ error }) => errors.push(error),
     });
 
     const client = createTRPCProxyClient<AppRouter>({
       links: [
         dataChannelLink({
-          client: createDataChannelClient({ dataChannel: tx }),
+          client: createDataChannelClient({
+            dataChannel: tx,
+            codecs: [msgpackCodec],
+          }),
         }),
       ],
     });
 
-    const normalResponse = await client.testQuery.query({ id: "world" });
+    const response = await client.testQuery.query({ id: "world" });
 
-    expect(normalResponse).to.deep.equal({
-      hello: "world",
-    } satisfies typeof normalResponse);
+    expect(response).to.deep.equal({ hello: "world" });
+    // the handshake is sent as text, and the response as msgpack
+    expect(fake.sent.map(({ method }) => method)).to.deep.equal([
+      "sendMessage",
+      "sendMessageBinary",
+    ]);
+    expect(fake.threshold).to.equal(1024);
 
+    const bufferedAmountLow = new Promise((resolve) =>
+      dataChannel.addEventListener("bufferedamountlow", resolve, { once: true })
+    );
+    fake.bufferedAmountLow();
+    await bufferedAmountLow;
+
+    fake.error("SCTP failure");
+    expect(errors.map(({ message }) => message)).to.deep.equal([
+      "SCTP failure",
+    ]);
+  });
+
+  it("should serve namespaces over a single data channel", async () => {
+    const errors: TRPCError[] = [];
+    for (const namespace of ["auth", "media"]) {
+      applyDataChannelHandler({
+        dataChannel: rx,
+        router: appRouter,
+        namespace,
+        createContext: ({ info }) => ({ namespace: info.namespace }),
+        onError: ({ error }) => errors.push(error),
+      });
+    }
+
+    const [auth, media] = ["auth", "media"].map((namespace) =>
+      createTRPCProxyClient<AppRouter>({
+        links: [
+          dataChannelLink({
+            client: createDataChannelClient({ dataChannel: tx, namespace }),
+          }),
+        ],
+      })
+    );
+
+    const responses = await Promise.all([
+      auth.testQuery.query({ id: "auth" }),
+      media.testQuery.query({ id: "media" }),
+    ]);
+
+    expect(responses).to.deep.equal([{ hello: "auth" }, { hello: "media" }]);
+    expect(errors).to.be.empty;
+  });
+
+  it("should encrypt frames with keys from an ECDH exchange", async () => {
+    const preSharedKey = crypto.getRandomValues(new Uint8Array(32));
+    applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+      encryption: { ecdh: true, preSharedKey },
+    });
+
+    const frames: ArrayBuffer[] = [];
+    rx.addEventListener("message", ({ data }) => frames.push(data));
+    const client = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({
+            dataChannel: tx,
+            encryption: { ecdh: true, preSharedKey },
+          }),
+        }),
+      ],
+    });
+
+    const response = await client.testQuery.query({ id: "world" });
+
+    expect(response).to.deep.equal({ hello: "world" });
+    expect(
+      frames.some((frame) => new TextDecoder().decode(frame).includes("world"))
+    ).to.be.false;
+  });
+
+  describe("encrypted data channels", () => {
+    const preSharedKey = crypto.getRandomValues(new Uint8Array(32));
+
+    /**
+     * encrypts both ends of a loopback pair, collecting the raw frames and
+     * errors of the handler's end
+     */
+    function createEncryptedPair(
+      handlerOpts: DataChannelEncryptionOptions = { preSharedKey }
+    ) {
+      const [sender, receiver] = createLoopbackDataChannelPair();
+      const frames: ArrayBuffer[] = [];
+      receiver.addEventListener("message", ({ data }: MessageEvent) => {
+        frames.push(data);
+      });
+      const client = createEncryptedDataChannel(sender, "client", {
+        preSharedKey,
+      });
+      const handler = createEncryptedDataChannel(
+        receiver,
+        "handler",
+        handlerOpts
+      );
+      const error = new Promise<TRPCDataChannelEncryptionError>((resolve) =>
+        handler.addEventListener("error", (ev: Event) =>
+          resolve((ev as ErrorEvent).error)
+        )
+      );
+      return { sender, client, handler, frames, error };
+    }
+
+    function nextEvent(
+      dataChannel: DataChannelLike,
+      type: DataChannelLikeEventType
+    ) {
+      return new Promise<Event>((resolve) =>
+        dataChannel.addEventListener(type, resolve, { once: true })
+      );
+    }
+
+    /**
+     * sends a message from the client, resolving with its encrypted frame
+     */
+    async function sendEncrypted(pair: ReturnType<typeof createEncryptedPair>) {
+      await Promise.all([
+        nextEvent(pair.client, "open"),
+        nextEvent(pair.handler, "open"),
+      ]);
+      const received = nextEvent(pair.handler, "message");
+      pair.client.send("hello");
+      expect(((await received) as MessageEvent).data).to.equal("hello");
+      return new Uint8Array(pair.frames[pair.frames.length - 1]);
+    }
+
+    it("should reject tampered frames", async () => {
+      const pair = createEncryptedPair();
+      const tampered = (await sendEncrypted(pair)).slice();
+      // a later sequence number, which the frame wasn't authenticated with
+      tampered[8]++;
+      pair.sender.send(tampered);
+
+      const error = await pair.error;
+      expect(error).to.be.instanceOf(TRPCDataChannelEncryptionError);
+      expect(error.reason).to.equal("tampered");
+    });
+
+    it("should reject replayed frames", async () => {
+      const pair = createEncryptedPair();
+      pair.sender.send(await sendEncrypted(pair));
+
+      const error = await pair.error;
+      expect(error).to.be.instanceOf(TRPCDataChannelEncryptionError);
+      expect(error.reason).to.equal("replayed");
+    });
+
+    it("should fail the key exchange of mismatched pre-shared keys", async () => {
+      const pair = createEncryptedPair({
+        preSharedKey: crypto.getRandomValues(new Uint8Array(32)),
+      });
+      let opened = false;
+      pair.handler.addEventListener("open", () => (opened = true));
+
+      const error = await pair.error;
+      expect(error).to.be.instanceOf(TRPCDataChannelEncryptionError);
+      expect(error.reason).to.equal("key-exchange");
+      await nextEvent(pair.handler, "close");
+      expect(opened).to.be.false;
+    });
+
+    it("should emit bufferedamountlow once frames waiting to be encrypted are sent", async () => {
+      const pair = createEncryptedPair();
+      await Promise.all([
+        nextEvent(pair.client, "open"),
+        nextEvent(pair.handler, "open"),
+      ]);
+      // the data channel sends immediately, so never emits its own event
+      Object.defineProperty(pair.sender, "bufferedAmount", {
+        get: () => 0,
+        set: () => {},
+      });
+      pair.client.bufferedAmountLowThreshold = 100;
+      let events = 0;
+      pair.client.addEventListener("bufferedamountlow", () => events++);
+
+      for (let i = 0; i < 3; i++) {
+        pair.client.send("x".repeat(40));
+      }
+      expect(pair.client.bufferedAmount).to.equal(120);
+      await nextEvent(pair.client, "bufferedamountlow");
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(pair.client.bufferedAmount).to.equal(0);
+      expect(events).to.equal(1);
+    });
+  });
+
+  it("should chunk messages larger than maxMessageSize", async () => {
+    const handler = applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+      maxMessageSize: 1024,
+    });
+
+    const client = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({
+            dataChannel: tx,
+            maxMessageSize: 1024,
+          }),
+        }),
+      ],
+    });
+
+    const response = await client.testLargeQuery.query({ length: 100_000 });
+
+    expect(response).to.equal("x".repeat(100_000));
+  });
+
+  it("should error if a response exceeds maxPayloadSize", async () => {
+    const handler = applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+      maxPayloadSize: 10_000,
+    });
+
+    const client = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({ dataChannel: tx }),
+        }),
+      ],
+    });
+
+    let error = null;
+    try {
+      await client.testLargeQuery.query({ length: 100_000 });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).to.be.an("Error");
+    expect(error).to.match(/exceeds the maximum payload size/);
+  });
+
+  it("should negotiate the msgpack codec", async () => {
+    const handler = applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+      codecs: [msgpackCodec],
+    });
+
+    const client = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({
+            dataChannel: tx,
+            codecs: [msgpackCodec],
+          }),
+        }),
+      ],
+    });
+
+    const response = await client.testBinaryQuery.query({ length: 4 });
+
+    expect(response.bytes).to.deep.equal(new Uint8Array([1, 1, 1, 1]));
+    expect(response.date).to.deep.equal(new Date(0));
+    // tRPC types outputs as serialized to JSON, which msgpack doesn't do
+    expect(
+      (response.map as unknown as Map<string, string>).get("key")
+    ).to.equal("value");
+  });
+
+  it("should handle queries in both directions between peers", async () => {
+    const txPeer = createDataChannelPeer<AppRouter>({
+      dataChannel: tx,
+      router: appRouter,
+    });
+    const rxPeer = createDataChannelPeer<AppRouter>({
+      dataChannel: rx,
+      router: appRouter,
+    });
+
+    const [fromTx, fromRx] = await Promise.all([
+      txPeer.client.testQuery.query({ id: "tx" }),
+      rxPeer.client.testQuery.query({ id: "rx" }),
+    ]);
+
+    expect(fromTx).to.deep.equal({ hello: "tx" });
+    expect(fromRx).to.deep.equal({ hello: "rx" });
+  });
+
+  it("should handle subscriptions over connected data channels", async () => {
+    const handler = applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+    });
+
+    const client = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({ dataChannel: tx }),
+        }),
+      ],
+    });
+
+    const expectedMessages: Message[] = [
+      {
+        id: "1",
+        channel: "test",
+        content: "hello",
+      },
+      {
+        id: "2",
+        channel: "test",
+        content: "there",
+      },
+      {
+        id: "3",
+        channel: "test",
+        content: "world",
+      },
+    ];
+
+    // this subscription API isn't very nice :(
+    // here, we track
+    // 1) when the subscription is created and ACKed
+    // 2) when the expected data arrives
+    // 3) when the subscription is destroyed and ACKed
+    const subscriptionPromise = new Promise<{ data: Promise<Message[]> }>(
+      (resolveSubscription, rejectSubscription) => {
+        const dataPromise = new Promise<Message[]>(
+          (resolveData, rejectData) => {
+            let count = 0;
+            const messages: Message[] = [];
+            const subscription = client.testSubscription.subscribe(
+              { channel: "test" },
+              {
+                onError(err) {
+                  // reject both, something went wrong
+                  rejectSubscription(err);
+                  rejectData(err);
+                },
+                onStarted() {
+                  // the subscription is setup, complete the outer promise
+                  resolveSubscription({ data: dataPromise });
+                },
+                onData(data) {
+                  messages.push(data);
+                  count++;
+                  if (count >= expectedMessages.length) {
+                    // when we've got the expected amount of messages, unsubscribe
+                    subscription.unsubscribe();
+                  }
+                },
+                onComplete() {
+                  // when we've unsubscribed successfully, complete the inner promise
+                  resolveData(messages);
+                },
+              }
+            );
+          }
+        );
+      }
+    );
+
+    // wait for the subscription to connect
+    const subscriptionDataPromise = await subscriptionPromise;
+
+    // send the events to create subscription data
+    const expectedMessageResults = await Promise.all(
+      expectedMessages.map((expected) =>
+        client.addToTestSubscription.mutate(expected)
+      )
+    );
+
+    // assert that the events sent
+    expect(expectedMessageResults).to.deep.equal(expectedMessages);
+
+    // wait for the data via the subscription
+    const subscriptionResults = await subscriptionDataPromise.data;
+
+    // assert that the data arrived
+    expect(subscriptionResults).to.deep.equal(expectedMessages);
+  });
+
+  describe("unreliable delivery", () => {
+    let unreliableTx: RTCDataChannel;
+    let unreliableRx: RTCDataChannel;
+    /**
+     * the frames that arrived over the unreliable data channel
+     */
+    let unreliableFrames: string[];
+
+    beforeEach(async () => {
+      const unreliableRxPromise = waitForChannel(server, "unreliable");
+      unreliableTx = client.createDataChannel("unreliable", {
+        ordered: false,
+        maxRetransmits: 0,
+      });
+      unreliableRx = await unreliableRxPromise;
+      unreliableFrames = [];
+      unreliableTx.addEventListener("message", ({ data }) =>
+        unreliableFrames.push(data)
+      );
+    });
+
+    /**
+     * subscribes unreliably, collecting the ids of the messages received
+     */
+    async function subscribeUnreliably(
+      dataChannelClient: TRPCDataChannelClient
+    ) {
+      const trpcClient = createTRPCProxyClient<AppRouter>({
+        links: [dataChannelLink({ client: dataChannelClient })],
+      });
+      const received: string[] = [];
+      let onReceived = () => {};
+      let onStarted = () => {};
+      await new Promise<void>((resolve) => {
+        onStarted = resolve;
+        trpcClient.testSubscription.subscribe(
+          { channel: "unreliable" },
+          {
+            onStarted: () => onStarted(),
+            onData: ({ id }) => {
+              received.push(id);
+              onReceived();
+            },
+            context: { reliable: false },
+          }
+        );
+      });
+      return {
+        received,
+        /**
+         * adds a message, resolving once it's received
+         */
+        add: (id: string) =>
+          new Promise<void>((resolve) => {
+            onReceived = resolve;
+            appRouter.createCaller({}).addToTestSubscription({
+              id,
+              channel: "unreliable",
+              content: id,
+            });
+          }),
+        restarted: () => new Promise<void>((resolve) => (onStarted = resolve)),
+      };
+    }
+
+    /**
+     * sends subscription data to the client as a handler would, numbered `seq`
+     */
+    function sendUnreliably(id: string, seq: number) {
+      const { id: requestId } = JSON.parse(unreliableFrames[0]);
+      unreliableRx.send(
+        JSON.stringify({
+          id: requestId,
+          result: {
+            type: "data",
+            data: { id, channel: "unreliable", content: id },
+            seq,
+          },
+        })
+      );
+    }
+
+    it("should send subscription data over an unreliable data channel", async () => {
+      applyDataChannelHandler({
+        dataChannel: rx,
+        unreliableDataChannel: unreliableRx,
+        router: appRouter,
+      });
+      const subscription = await subscribeUnreliably(
+        createDataChannelClient({
+          dataChannel: tx,
+          unreliableDataChannel: unreliableTx,
+        })
+      );
+
+      for (const id of ["1", "2", "3"]) {
+        await subscription.add(id);
+      }
+
+      expect(subscription.received).to.deep.equal(["1", "2", "3"]);
+      expect(
+        unreliableFrames.map((frame) => JSON.parse(frame).result.data.id)
+      ).to.deep.equal(["1", "2", "3"]);
+    });
+
+    it("should drop data that arrives after newer data", async () => {
+      applyDataChannelHandler({
+        dataChannel: rx,
+        unreliableDataChannel: unreliableRx,
+        router: appRouter,
+      });
+      const subscription = await subscribeUnreliably(
+        createDataChannelClient({
+          dataChannel: tx,
+          unreliableDataChannel: unreliableTx,
+        })
+      );
+
+      await subscription.add("1");
+      await subscription.add("2");
+      // older than the data already received
+      sendUnreliably("stale", 1);
+      await subscription.add("3");
+
+      expect(subscription.received).to.deep.equal(["1", "2", "3"]);
+    });
+
+    it("should drop the replaced handler's data until re-subscribed", async () => {
+      applyDataChannelHandler({
+        dataChannel: rx,
+        unreliableDataChannel: unreliableRx,
+        router: appRouter,
+      });
+      const dataChannelClient = createDataChannelClient({
+        dataChannel: tx,
+        unreliableDataChannel: unreliableTx,
+      });
+      const subscription = await subscribeUnreliably(dataChannelClient);
+      await subscription.add("1");
+
+      const replacementRxPromise = waitForChannel(server, "replacement");
+      const replacementTx = client.createDataChannel("replacement");
+      applyDataChannelHandler({
+        dataChannel: await replacementRxPromise,
+        unreliableDataChannel: unreliableRx,
+        router: appRouter,
+      });
+      const restarted = subscription.restarted();
+      dataChannelClient.replaceDataChannel(replacementTx);
+      // once the handshake completes, but before the re-subscription starts
+      replacementTx.addEventListener(
+        "message",
+        () => sendUnreliably("stale", 100),
+        { once: true }
+      );
+      await restarted;
+      await subscription.add("2");
+
+      expect(subscription.received).to.deep.equal(["1", "2"]);
+    });
+  });
+
+  it("should drain in-flight queries before disposing", async () => {
+    const handler = applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+    });
+
+    const client = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({ dataChannel: tx }),
+        }),
+      ],
+    });
+
+    await client.testQuery.query({ id: "world" });
+    const responsePromise = client.testSlowQuery.query({ delay: 100 });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(handler.stats.inflightRequests).to.equal(1);
+
+    const drainPromise = handler.drain();
+    let error = null;
+    try {
+      await client.testQuery.query({ id: "world" });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(await responsePromise).to.equal(100);
+    await drainPromise;
+    expect(error).to.match(/draining/);
+    expect(handler.stats).to.deep.equal({
+      subscriptions: 0,
+      inflightRequests: 0,
+    });
+  });
+
+  it("should reject queries beyond maxConcurrentRequests", async () => {
+    applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+      maxConcurrentRequests: 1,
+    });
+
+    const client = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({ dataChannel: tx }),
+        }),
+      ],
+    });
+
+    const [response, rejected] = await Promise.allSettled([
+      client.testSlowQuery.query({ delay: 50 }),
+      client.testSlowQuery.query({ delay: 50 }),
+    ]);
+
+    expect(response).to.deep.equal({ status: "fulfilled", value: 50 });
+    expect(rejected.status).to.equal("rejected");
+    expect((rejected as PromiseRejectedResult).reason.data.code).to.equal(
+      "TOO_MANY_REQUESTS"
+    );
+  });
+
+  it("should count cancelled requests until their procedures return", async () => {
+    const handler = applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+      maxConcurrentRequests: 1,
+    });
+
+    const session = startRawSession(tx);
+    await session.received(1);
+    // testSlowMutation ignores ctx.signal, so keeps running once cancelled
+    tx.send(
+      JSON.stringify({
+        id: 1,
+        method: "mutation",
+        params: { path: "testSlowMutation", input: { delay: 100 } },
+      })
+    );
+    tx.send(JSON.stringify({ id: 1, method: "request.cancel" }));
+    tx.send(
+      JSON.stringify({
+        id: 2,
+        method: "mutation",
+        params: { path: "testSlowMutation", input: { delay: 100 } },
+      })
+    );
+
+    const [, rejected] = await session.received(2);
+    expect(rejected.id).to.equal(2);
+    expect(rejected.error?.data.code).to.equal("TOO_MANY_REQUESTS");
+    expect(handler.stats.inflightRequests).to.equal(1);
+
+    await handler.drain();
+    expect(handler.stats.inflightRequests).to.equal(0);
+  });
+
+  it("should rate limit each connection", async () => {
+    applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+      rateLimit: { limit: 2, window: 60_000 },
+    });
+
+    const client = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({ dataChannel: tx }),
+        }),
+      ],
+    });
+
+    const results = await Promise.allSettled(
+      ["a", "b", "c"].map((id) => client.testQuery.query({ id }))
+    );
+
+    expect(results.map(({ status }) => status)).to.deep.equal([
+      "fulfilled",
+      "fulfilled",
+      "rejected",
+    ]);
+    expect((results[2] as PromiseRejectedResult).reason.data.code).to.equal(
+      "TOO_MANY_REQUESTS"
+    );
+  });
+
+  it("should split batches beyond maxBatchSize", async () => {
+    applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+      maxBatchSize: 2,
+    });
+
+    const client = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({
+            dataChannel: tx,
+            maxBatchSize: 2,
+          }),
+        }),
+      ],
+    });
+
+    const responses = await Promise.all([
+      client.testQuery.query({ id: "a" }),
+      client.testQuery.query({ id: "b" }),
+      client.testQuery.query({ id: "c" }, { context: { skipBatch: true } }),
+      client.testQuery.query({ id: "d" }),
+    ]);
+
+    expect(responses).to.deep.equal([
+      { hello: "a" },
+      { hello: "b" },
+      { hello: "c" },
+      { hello: "d" },
+    ]);
+  });
+
+  it("should serve data channels attached to a server", async () => {
+    const dataChannelServer = createDataChannelServer({ router: appRouter });
+    dataChannelServer.attach(server);
+
+    const trpcClient = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({
+            dataChannel: client.createDataChannel("attached"),
+          }),
+        }),
+      ],
+    });
+
+    await new Promise<void>((resolve, reject) =>
+      trpcClient.testSubscription.subscribe(
+        { channel: "attached" },
+        { onStarted: resolve, onError: reject }
+      )
+    );
+
+    expect(dataChannelServer.connections).to.have.length(1);
+    expect(dataChannelServer.connections[0].peerConnection).to.equal(server);
+    expect(dataChannelServer.connections[0].subscriptions).to.equal(1);
+
+    dataChannelServer.close();
+
+    expect(dataChannelServer.connections).to.have.length(0);
+  });
+
+  it("should time out queries that receive no response", async () => {
+    // no handler is applied to `rx`, so nothing will ever respond
+    const client = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({ dataChannel: tx, timeout: 60_000 }),
+        }),
+      ],
+    });
+
+    let error = null;
+    try {
+      await client.testQuery.query(
+        { id: "world" },
+        { context: { timeout: 100 } }
+      );
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).to.be.an("Error");
+    expect(error).to.match(/Request timed out after 100ms/);
+  });
+
+  it("should stream results that are async iterables", async () => {
+    const handler = applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+    });
+
+    const client = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({ dataChannel: tx }),
+        }),
+      ],
+    });
+
+    // more chunks than the handler sends before the client asks for more
+    const chunks = (await client.testStreamQuery.query({
+      count: 40,
+    })) as inferStreamedProcedureOutput<AppRouter["testStreamQuery"]>;
+    const received: number[] = [];
+    for await (const chunk of chunks) {
+      received.push(chunk);
+    }
+
+    expect(received).to.deep.equal([...Array(40).keys()]);
+    expect(handler.stats.inflightRequests).to.equal(0);
+  });
+
+  describe("streamed results", () => {
+    function createStreamingClient() {
+      return createTRPCProxyClient<AppRouter>({
+        links: [
+          dataChannelLink({
+            client: createDataChannelClient({ dataChannel: tx }),
+          }),
+        ],
+      });
+    }
+
+    /**
+     * reads the stream until it ends or throws, returning what it read
+     */
+    async function readStream(chunks: AsyncIterable<number>) {
+      const received: number[] = [];
+      try {
+        for await (const chunk of chunks) {
+          received.push(chunk);
+        }
+      } catch (error) {
+        return { received, error };
+      }
+      return { received, error: undefined };
+    }
+
+    it("should stop the procedure when the client stops reading", async () => {
+      const handler = applyDataChannelHandler({
+        dataChannel: rx,
+        router: appRouter,
+      });
+      const sent: string[] = [];
+      rx.addEventListener("message", ({ data }) => sent.push(data));
+      const finished = streamQueryFinishes.once("finished");
+
+      const chunks = (await createStreamingClient().testStreamQuery.query({
+        count: 1_000,
+        delay: 5,
+      })) as inferStreamedProcedureOutput<AppRouter["testStreamQuery"]>;
+      const received: number[] = [];
+      for await (const chunk of chunks) {
+        received.push(chunk);
+        if (received.length === 3) {
+          break;
+        }
+      }
+
+      // the generator is returned well before its last chunk
+      expect(await finished).to.be.lessThan(1_000);
+      expect(received).to.deep.equal([0, 1, 2]);
+      expect(sent.some((data) => data.includes('"request.cancel"'))).to.be.true;
+      // the request is in progress until the handler is done with the generator
+      await new Promise((resolve) => setTimeout(resolve));
+      expect(handler.stats.inflightRequests).to.equal(0);
+    });
+
+    it("should throw the error of a procedure that throws mid-stream", async () => {
+      const errors: TRPCError[] = [];
+      applyDataChannelHandler({
+        dataChannel: rx,
+        router: appRouter,
+        onError: ({ error }) => errors.push(error),
+      });
+
+      const chunks = (await createStreamingClient().testStreamQuery.query({
+        count: 10,
+        failAt: 3,
+      })) as inferStreamedProcedureOutput<AppRouter["testStreamQuery"]>;
+      const { received, error } = await readStream(chunks);
+
+      expect(received).to.deep.equal([0, 1, 2]);
+      expect(error).to.be.instanceOf(TRPCClientError);
+      expect(error).to.match(/Failed at chunk 3/);
+      expect(errors.map(({ message }) => message)).to.deep.equal([
+        "Failed at chunk 3",
+      ]);
+    });
+
+    it("should throw when the data channel closes mid-stream", async () => {
+      applyDataChannelHandler({
+        dataChannel: rx,
+        router: appRouter,
+      });
+      const finished = streamQueryFinishes.once("finished");
+
+      const chunks = (await createStreamingClient().testStreamQuery.query({
+        count: 1_000,
+        delay: 5,
+      })) as inferStreamedProcedureOutput<AppRouter["testStreamQuery"]>;
+      const reading = readStream(chunks);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      rx.close();
+      const { error } = await reading;
+
+      expect(error).to.match(/DataChannel closed prematurely/);
+      expect(await finished).to.be.lessThan(1_000);
+    });
+  });
+
+  it("should abort in-flight queries", async () => {
+    const handler = applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+    });
+
+    const client = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({ dataChannel: tx }),
+        }),
+      ],
+    });
+
+    const controller = new AbortController();
+    const responsePromise = client.testSlowQuery.query(
+      { delay: 1_000 },
+      { signal: controller.signal }
+    );
+    controller.abort();
+
+    let error = null;
+    try {
+      await responsePromise;
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).to.be.an("Error");
+    expect(error).to.match(/aborted/);
+  });
+
+  it("should abort the signal of procedures the client stops waiting for", async () => {
+    applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+    });
+
+    const client = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({ dataChannel: tx }),
+        }),
+      ],
+    });
+
+    const aborted = slowQueryAborts.once("aborted");
+    const controller = new AbortController();
+    const errorPromise = client.testSlowQuery
+      .query({ delay: 60_000 }, { signal: controller.signal })
+      .then(
+        () => null,
+        (err: unknown) => err
+      );
+    // lets the handler start the query
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    controller.abort();
+
+    expect(await aborted).to.deep.equal({ delay: 60_000 });
+    expect(await errorPromise).to.match(/aborted/);
+  });
+
+  it("should re-subscribe on a replacement data channel", async () => {
+    applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+    });
+
+    const dataChannelClient = createDataChannelClient({ dataChannel: tx });
+    const states: DataChannelClientState[] = [];
+    dataChannelClient.state.subscribe({
+      next(state) {
+        states.push(state);
+      },
+    });
+
+    const trpcClient = createTRPCProxyClient<AppRouter>({
+      links: [dataChannelLink({ client: dataChannelClient })],
+    });
+
+    let onStarted = () => {};
+    let onData = (data: Message) => {};
+    trpcClient.testSubscription.subscribe(
+      { channel: "test" },
+      {
+        onStarted: () => onStarted(),
+        onData: (data) => onData(data),
+      }
+    );
+    await new Promise<void>((resolve) => (onStarted = resolve));
+
+    const replacementRxPromise = waitForChannel(server, "replacement");
+    const replacementTx = client.createDataChannel("replacement");
+    const replacementRx = await replacementRxPromise;
+
+    applyDataChannelHandler({
+      dataChannel: replacementRx,
+      router: appRouter,
+    });
+
+    const restarted = new Promise<void>((resolve) => (onStarted = resolve));
+    dataChannelClient.replaceDataChannel(replacementTx);
+    await restarted;
+
+    expect(dataChannelClient.getConnection()).to.equal(replacementTx);
+    expect(states).to.deep.equal(["open", "reconnecting", "open"]);
+
+    const expected: Message = { id: "1", channel: "test", content: "hello" };
+    const received = new Promise<Message>((resolve) => (onData = resolve));
+    await trpcClient.addToTestSubscription.mutate(expected);
+
+    expect(await received).to.deep.equal(expected);
+  });
+
+  it("should fail mutations sent before a replacement data channel", async () => {
+    applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+    });
+    const replacementRxPromise = waitForChannel(server, "replacement");
+    const replacementTx = client.createDataChannel("replacement");
+    applyDataChannelHandler({
+      dataChannel: await replacementRxPromise,
+      router: appRouter,
+    });
+
+    const dataChannelClient = createDataChannelClient({ dataChannel: tx });
+    const trpcClient = createTRPCProxyClient<AppRouter>({
+      links: [dataChannelLink({ client: dataChannelClient })],
+    });
+
+    const queryPromise = trpcClient.testSlowQuery.query({ delay: 200 });
+    const mutationErrorPromise = trpcClient.testSlowMutation
+      .mutate({ delay: 200 })
+      .then(
+        () => null,
+        (err: unknown) => err
+      );
+    // lets both requests reach the original handler
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    dataChannelClient.replaceDataChannel(replacementTx);
+
+    // the query is answered by the replacement's handler
+    expect(await queryPromise).to.equal(200);
+    const mutationError = await mutationErrorPromise;
+    expect(mutationError).to.match(
+      /DataChannel replaced before the mutation was answered/
+    );
+    expect(
+      (mutationError as TRPCClientError<AppRouter>).cause
+    ).to.be.instanceOf(TRPCDataChannelClosedError);
+  });
+
+  it("should resume subscriptions after the last tracked event", async () => {
+    applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+    });
+    const replacementRxPromise = waitForChannel(server, "replacement");
+    const replacementTx = client.createDataChannel("replacement");
+    applyDataChannelHandler({
+      dataChannel: await replacementRxPromise,
+      router: appRouter,
+    });
+
+    // resolves with the function that completes the reconnect
+    let onReconnect = (reconnect: (replacement: RTCDataChannel) => void) => {};
+    const reconnecting = new Promise<(replacement: RTCDataChannel) => void>(
+      (resolve) => (onReconnect = resolve)
+    );
+    const trpcClient = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({
+            dataChannel: tx,
+            reconnect: () => new Promise(onReconnect),
+          }),
+        }),
+      ],
+    });
+
+    const received: string[] = [];
+    let onReceived = () => {};
+    await new Promise<void>((onStarted) =>
+      trpcClient.testTrackedSubscription.subscribe(
+        { channel: "tracked" },
+        {
+          onStarted,
+          onData: ({ id }) => {
+            received.push(id);
+            onReceived();
+          },
+        }
+      )
+    );
+    const caller = appRouter.createCaller({});
+    const first = { id: "1", channel: "tracked", content: "first" };
+    await new Promise<void>((resolve) => {
+      onReceived = resolve;
+      caller.addToTestSubscription(first);
+    });
+
+    // missed whilst the subscription has no data channel
+    tx.close();
+    const reconnect = await reconnecting;
+    await caller.addToTestSubscription({ ...first, id: "2" });
+
+    const resumed = new Promise<void>((resolve) => (onReceived = resolve));
+    reconnect(replacementTx);
+    await resumed;
+
+    expect(received).to.deep.equal(["1", "2"]);
+  });
+
+  it("should trace requests and link handler spans to client spans", async () => {
+    const exporter = createInMemoryExporter();
+    const events: DataChannelRequestEvent[] = [];
+    applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+      tracer: exporter.tracer,
+      instrumentation: { onRequest: (event) => events.push(event) },
+    });
+
+    const trpcClient = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({
+            dataChannel: tx,
+            tracer: exporter.tracer,
+            instrumentation: { onRequest: (event) => events.push(event) },
+          }),
+        }),
+      ],
+    });
+
+    await trpcClient.testQuery.query({ id: "world" });
+
+    const [handlerSpan, clientSpan] = exporter.getFinishedSpans();
+    expect(handlerSpan.name).to.equal("testQuery");
+    expect(handlerSpan.links).to.deep.equal([
+      { context: { ...clientSpan.spanContext, isRemote: true } },
+    ]);
+    expect(clientSpan.status).to.deep.equal({ code: 1 });
+    expect(events.map(({ side, outcome }) => [side, outcome])).to.deep.equal([
+      ["handler", "ok"],
+      ["client", "ok"],
+    ]);
+    expect(events[1].requestSize).to.equal(events[0].requestSize);
+    expect(events[1].responseSize).to.equal(events[0].responseSize);
+  });
+
+  it("should record traffic and replay it against a router", async () => {
+    applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+    });
+
+    const recorder = createDataChannelRecorder(tx);
+    const trpcClient = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({
+            dataChannel: recorder.dataChannel,
+          }),
+        }),
+      ],
+    });
+
+    await trpcClient.testQuery.query({ id: "world" });
+
+    // survives being stored as JSON
+    const trace = JSON.parse(JSON.stringify(recorder.getTrace()));
+    expect(
+      trace.entries.map(({ from }: DataChannelTraceEntry) => from)
+    ).to.deep.equal(["client", "handler", "client", "handler"]);
+
+    const replay = await replayTrace(trace, {
+      router: appRouter,
+      timing: "immediate",
+    });
+    const handlerEnvelopes = ({ entries }: DataChannelTrace) =>
+      entries.filter(({ from }) => from === "handler").map((e) => e.envelope);
+    expect(handlerEnvelopes(replay)).to.deep.equal(handlerEnvelopes(trace));
+  });
+
+  it("should replay with the recorded codec, once the handshake completes", async () => {
+    applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+      codecs: [msgpackCodec],
+    });
+
+    const recorder = createDataChannelRecorder(tx, { codecs: [msgpackCodec] });
+    const trpcClient = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({
+            dataChannel: recorder.dataChannel,
+            codecs: [msgpackCodec],
+          }),
+        }),
+      ],
+    });
+
+    await trpcClient.testBinaryQuery.query({ length: 4 });
+
+    const trace = recorder.getTrace();
+    const replay = await replayTrace(trace, {
+      router: appRouter,
+      codecs: [msgpackCodec],
+      // requests would fail if sent before the context is created
+      createContext: async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return {};
+      },
+      timing: "immediate",
+    });
+    const handlerEnvelopes = ({ entries }: DataChannelTrace) =>
+      entries.filter(({ from }) => from === "handler").map((e) => e.envelope);
+    expect(handlerEnvelopes(replay)).to.deep.equal(handlerEnvelopes(trace));
+    // values only msgpack keeps, rather than their JSON
+    expect(handlerEnvelopes(replay)[1]).to.deep.nested.include({
+      "result.data.map": new Map([["key", "value"]]),
+    });
+  });
+
+  it("should serialize traces of binary codecs", async () => {
+    applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+      codecs: [msgpackCodec],
+    });
+
+    const recorder = createDataChannelRecorder(tx, { codecs: [msgpackCodec] });
+    const trpcClient = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({
+            dataChannel: recorder.dataChannel,
+            codecs: [msgpackCodec],
+          }),
+        }),
+      ],
+    });
+
+    await trpcClient.testBinaryQuery.query({ length: 4 });
+    const trace = recorder.getTrace();
+    // values msgpack decodes to that JSON can't hold, and lookalikes of the tags
+    trace.entries.push({
+      time: 0,
+      from: "handler",
+      envelope: {
+        big: 2n ** 64n - 1n,
+        set: new Set([1, NaN]),
+        date: new Date(NaN),
+        $type: "bigint",
+        value: "1",
+      },
+    });
+
+    const parsed = parseTrace(serializeTrace(trace));
+    expect(parsed).to.deep.equal(trace);
+    expect(() => JSON.stringify(trace)).to.throw(TypeError);
+
+    const replay = await replayTrace(parsed, {
+      router: appRouter,
+      codecs: [msgpackCodec],
+      timing: "immediate",
+    });
+    const handlerEnvelopes = ({ entries }: DataChannelTrace) =>
+      entries.filter(({ from }) => from === "handler").map((e) => e.envelope);
+    expect(handlerEnvelopes(replay)).to.deep.equal(
+      handlerEnvelopes(trace).slice(0, -1)
+    );
+  });
+
+  it("should call lifecycle hooks", async () => {
+    applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+    });
+
+    const states: DataChannelClientState[] = [];
+    let opened = false;
+    const closed = new Promise<DataChannelClientStatus>((resolve) => {
+      const client = createTRPCProxyClient<AppRouter>({
+        links: [
+          dataChannelLink({
+            client: createDataChannelClient({
+              dataChannel: tx,
+              onOpen: () => (opened = true),
+              onClose: resolve,
+              onStateChange: ({ state }) => states.push(state),
+            }),
+          }),
+        ],
+      });
+      client.testQuery.query({ id: "world" }).then(() => rx.close());
+    });
+
+    expect(await closed).to.deep.equal({
+      state: "closed",
+      pendingRequests: 0,
+      failedRequests: 0,
+    });
+    expect(opened).to.be.true;
+    expect(states).to.deep.equal(["open", "closed"]);
+  });
+
+  it("should error if disconnected", async () => {
+    const handler = applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+    });
+
+    const client = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({ dataChannel: tx }),
+        }),
+      ],
+    });
+
+    tx.close();
+
+    let error = null;
+    try {
+      await client.testQuery.query({ id: "world" });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).to.be.an("Error");
+    expect(error).to.match(/DataChannel closed prematurely/);
+  });
+
+  it("should survive reconnection on the server", async () => {
+    const didCloseRx = new Promise<void>((resolve) => {
+      rx.addEventListener("close", () => resolve(), { once: true });
+    });
+
+    const handler = applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+    });
+
+    const client = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({ dataChannel: tx }),
+        }),
+      ],
+    });
+
+    const normalResponse = await client.testQuery.query({ id: "world" });
+
+    expect(normalResponse).to.deep.equal({
+      hello: "world",
+    } satisfies typeof normalResponse);
+
+    rx.dispatchEvent(new Event("close"));
+    rx.dispatchEvent(new Event("open"));
+
+    await didCloseRx;
+
+    const reconnectedResponse = await client.testQuery.query({ id: "world" });
+
+    expect(reconnectedResponse).to.deep.equal({
+      hello: "world",
+    } satisfies typeof reconnectedResponse);
+  });
+
+  it("should survive reconnection on the client", async () => {
+    const handler = applyDataChannelHandler({
+      dataChannel: rx,
+      router: appRouter,
+    });
+
+    const didCloseTx = new Promise<void>((resolve) => {
+      tx.addEventListener("close", () => resolve(), { once: true });
+    });
+
+    const client = createTRPCProxyClient<AppRouter>({
+      links: [
+        dataChannelLink({
+          client: createDataChannelClient({ dataChannel: tx }),
+        }),
+      ],
+    });
+
+    const normalResponse = await client.testQuery.query({ id: "world" });
+
+    expect(normalResponse).to.deep.equal({
+      hello: "world",
+    } satisfies typeof normalResponse);
+
+    const hellos: unknown[] = [];
+    rx.addEventListener("message", ({ data }) => {
+      if (data.includes('"method":"hello"')) {
+        hellos.push(data);
+      }
+    });
     tx.dispatchEvent(new Event("close"));
     tx.dispatchEvent(new Event("open"));
 
@@ -266,5 +2063,7 @@ describe("trpc-webrtc", () => {
     expect(reconnectedResponse).to.deep.equal({
       hello: "world",
     } satisfies typeof reconnectedResponse);
+    // the handshake starts again, as the handler may have changed
+    expect(hellos).to.have.length(1);
   });
 });
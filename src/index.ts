@@ -1,2 +1,28 @@
 export * from "./data-channel-link.js";
 export * from "./data-channel-handler.js";
+export * from "./data-channel-peer.js";
+export * from "./data-channel-server.js";
+export * from "./loopback-data-channel.js";
+export * from "./in-memory-exporter.js";
+export * from "./data-channel-recorder.js";
+export * from "./data-channel-like.js";
+export * from "./data-channel-adapters.js";
+export * from "./errors.js";
+export * from "./codecs.js";
+export type { BackpressurePolicy } from "./internals/sendQueue.js";
+export type { RateLimit } from "./internals/rateLimiter.js";
+export type { DataChannelEncryptionOptions } from "./internals/encryption.js";
+export { tracked } from "./internals/tracked.js";
+export type { TrackedData } from "./internals/tracked.js";
+export type {
+  DataChannelAttributes,
+  DataChannelBatchEvent,
+  DataChannelInstrumentation,
+  DataChannelRequestEvent,
+  DataChannelRequestOutcome,
+  DataChannelSide,
+  DataChannelSpan,
+  DataChannelSpanContext,
+  DataChannelSubscriptionEvent,
+  DataChannelTracer,
+} from "./internals/instrumentation.js";
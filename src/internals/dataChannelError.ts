@@ -0,0 +1,48 @@
+import { TRPCDataChannelError } from "../errors.js";
+
+/**
+ * `RTCError` fields, which are `null` when they don't apply
+ */
+const RTC_ERROR_FIELDS = [
+  "sctpCauseCode",
+  "receivedAlert",
+  "sentAlert",
+  "sdpLineNumber",
+] as const;
+
+function isRTCError(error: unknown): error is RTCError {
+  return typeof error === "object" && error !== null && "errorDetail" in error;
+}
+
+/**
+ * The error a data channel's `error` event reports. `RTCError`s, and the
+ * messages of data channels that only report one, become `TRPCDataChannelError`s.
+ * Errors of wrapping data channels, such as encryption errors, are kept as is.
+ * @internal
+ */
+export function getDataChannelError(ev: Event): Error {
+  const error: unknown = "error" in ev ? ev.error : undefined;
+  if (isRTCError(error)) {
+    const fields: Partial<Record<(typeof RTC_ERROR_FIELDS)[number], number>> =
+      {};
+    for (const field of RTC_ERROR_FIELDS) {
+      const value: unknown = error[field];
+      if (typeof value === "number") {
+        fields[field] = value;
+      }
+    }
+    return new TRPCDataChannelError(
+      error.message || `RTCDataChannel error: ${error.errorDetail}`,
+      { ...fields, errorDetail: error.errorDetail, cause: error }
+    );
+  }
+  if (error instanceof Error) {
+    return error;
+  }
+  return new TRPCDataChannelError(
+    typeof error === "string" && error
+      ? error
+      : "Underlying RTCDataChannel error",
+    { cause: error }
+  );
+}
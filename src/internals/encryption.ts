@@ -0,0 +1,493 @@
+import {
+  DataChannelLike,
+  DataChannelLikeEventType,
+} from "../data-channel-like.js";
+import { createErrorEvent, forwardEvent } from "./forwardEvent.js";
+import {
+  TRPCDataChannelEncryptionError,
+  TRPCDataChannelEncryptionErrorReason,
+} from "../errors.js";
+
+export interface DataChannelEncryptionOptions {
+  /**
+   * Secret bytes both peers share, from which each connection's keys are derived
+   */
+  preSharedKey?: BufferSource;
+  /**
+   * Exchanges ECDH public keys with the remote peer, deriving each connection's
+   * keys from their shared secret. `true` generates a P-256 key pair for each
+   * connection, or a P-256 key pair may be given. When combined with
+   * `preSharedKey`, both are needed to derive the keys.
+   */
+  ecdh?: boolean | CryptoKeyPair;
+  /**
+   * Verifies the remote peer's raw ECDH public key, for example against a
+   * fingerprint exchanged out of band. Without it, or a `preSharedKey`, a relay
+   * could exchange keys in the remote peer's place.
+   */
+  verifyRemoteKey?: (publicKey: Uint8Array) => boolean | Promise<boolean>;
+}
+
+/**
+ * The first byte of each frame
+ */
+const HANDSHAKE_FRAME = 0;
+const TEXT_FRAME = 1;
+const BINARY_FRAME = 2;
+/**
+ * Sent once a peer derives its keys, proving to the remote peer that both
+ * derived the same keys before either sends a message
+ */
+const CONFIRM_FRAME = 3;
+
+const NONCE_SIZE = 32;
+const SEQUENCE_SIZE = 8;
+const TAG_SIZE = 16;
+const HEADER_SIZE = 1 + SEQUENCE_SIZE;
+
+/**
+ * The number of bytes encryption adds to each frame, which senders should
+ * subtract from their `maxMessageSize`
+ * @internal
+ */
+export const ENCRYPTION_OVERHEAD = HEADER_SIZE + TAG_SIZE;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+function concat(...parts: Uint8Array[]) {
+  const bytes = new Uint8Array(
+    parts.reduce((length, part) => length + part.byteLength, 0)
+  );
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.byteLength;
+  }
+  return bytes;
+}
+
+function toBytes(source: BufferSource) {
+  return ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength)
+    : new Uint8Array(source);
+}
+
+/**
+ * The 96-bit AES-GCM IV of a sequence number. Each connection derives new keys,
+ * so IVs are never reused with the same key.
+ */
+function toIv(sequence: number) {
+  const iv = new Uint8Array(12);
+  const view = new DataView(iv.buffer);
+  view.setUint32(4, Math.floor(sequence / 2 ** 32));
+  view.setUint32(8, sequence >>> 0);
+  return iv;
+}
+
+function readSequence(frame: Uint8Array) {
+  const view = new DataView(frame.buffer, frame.byteOffset + 1, SEQUENCE_SIZE);
+  return view.getUint32(0) * 2 ** 32 + view.getUint32(4);
+}
+
+type Role = "client" | "handler";
+
+/**
+ * A data channel whose frames are encrypted and authenticated with AES-GCM.
+ * It opens once both peers have exchanged nonces (and ECDH public keys), from
+ * which the keys for each direction are derived, and confirmed they derived
+ * the same keys.
+ */
+class EncryptedDataChannel extends EventTarget implements DataChannelLike {
+  binaryType: BinaryType = "arraybuffer";
+  private readonly nonce = crypto.getRandomValues(new Uint8Array(NONCE_SIZE));
+  private handshake?: Promise<CryptoKeyPair | undefined>;
+  private keys?: { send: CryptoKey; receive: CryptoKey };
+  /**
+   * whether the remote peer proved it derived the same keys
+   */
+  private confirmed = false;
+  private remoteHandshakeReceived = false;
+  private nextSequence = 0;
+  private lastReceivedSequence = -1;
+  /**
+   * bytes waiting to be encrypted, which count towards `bufferedAmount`
+   */
+  private pendingBytes = 0;
+  /**
+   * frames are encrypted and decrypted one at a time, so they keep their order
+   */
+  private sending = Promise.resolve();
+  private receiving = Promise.resolve();
+
+  constructor(
+    private readonly dataChannel: DataChannelLike,
+    private readonly role: Role,
+    private readonly opts: DataChannelEncryptionOptions
+  ) {
+    super();
+    // frames are read synchronously, so they can't be `Blob`s
+    dataChannel.binaryType = "arraybuffer";
+    dataChannel.addEventListener("open", () => this.startHandshake());
+    dataChannel.addEventListener("message", ({ data }: MessageEvent) => {
+      this.receiving = this.receiving.then(() => this.receive(data));
+    });
+    const events: DataChannelLikeEventType[] = [
+      "close",
+      "error",
+      "bufferedamountlow",
+    ];
+    for (const type of events) {
+      dataChannel.addEventListener(type, (event: Event) => {
+        if (
+          type === "bufferedamountlow" &&
+          this.bufferedAmount > this.bufferedAmountLowThreshold
+        ) {
+          // dispatched once the frames waiting to be encrypted are sent
+          return;
+        }
+        this.dispatchEvent(forwardEvent(event));
+      });
+    }
+    if (dataChannel.readyState === "open") {
+      this.startHandshake();
+    }
+  }
+
+  get label() {
+    return this.dataChannel.label;
+  }
+
+  get protocol() {
+    return this.dataChannel.protocol;
+  }
+
+  get id() {
+    return this.dataChannel.id;
+  }
+
+  get readyState(): RTCDataChannelState {
+    const { readyState } = this.dataChannel;
+    return readyState === "open" && !this.confirmed ? "connecting" : readyState;
+  }
+
+  get bufferedAmount() {
+    return this.dataChannel.bufferedAmount + this.pendingBytes;
+  }
+
+  get bufferedAmountLowThreshold() {
+    return this.dataChannel.bufferedAmountLowThreshold;
+  }
+
+  set bufferedAmountLowThreshold(value: number) {
+    this.dataChannel.bufferedAmountLowThreshold = value;
+  }
+
+  send(data: string | ArrayBufferView) {
+    const { keys } = this;
+    if (this.readyState !== "open" || !keys) {
+      throw new DOMException("Data channel is not open", "InvalidStateError");
+    }
+    // copied, as the sender may reuse its buffer whilst it's being encrypted
+    const plaintext =
+      typeof data === "string"
+        ? textEncoder.encode(data)
+        : toBytes(data).slice();
+    this.sendFrame(
+      typeof data === "string" ? TEXT_FRAME : BINARY_FRAME,
+      plaintext,
+      keys.send
+    );
+  }
+
+  /**
+   * encrypts and sends a frame, after those sent before it
+   */
+  private sendFrame(kind: number, plaintext: Uint8Array, key: CryptoKey) {
+    const header = new Uint8Array(HEADER_SIZE);
+    header[0] = kind;
+    const sequence = this.nextSequence++;
+    header.set(toIv(sequence).subarray(4), 1);
+
+    this.pendingBytes += plaintext.byteLength;
+    this.sending = this.sending
+      .then(async () => {
+        const ciphertext = await crypto.subtle.encrypt(
+          { name: "AES-GCM", iv: toIv(sequence), additionalData: header },
+          key,
+          plaintext
+        );
+        const wasAboveThreshold =
+          this.bufferedAmount > this.bufferedAmountLowThreshold;
+        this.pendingBytes -= plaintext.byteLength;
+        if (this.dataChannel.readyState === "open") {
+          this.dataChannel.send(concat(header, new Uint8Array(ciphertext)));
+        }
+        if (
+          wasAboveThreshold &&
+          this.bufferedAmount <= this.bufferedAmountLowThreshold
+        ) {
+          // the data channel's own event only covers its own bufferedAmount
+          this.dispatchEvent(new Event("bufferedamountlow"));
+        }
+      })
+      .catch((cause) => this.dispatchError(cause));
+  }
+
+  close() {
+    this.dataChannel.close();
+  }
+
+  private dispatchError(error: unknown) {
+    this.dispatchEvent(createErrorEvent(error));
+  }
+
+  private reject(
+    message: string,
+    reason: TRPCDataChannelEncryptionErrorReason,
+    cause?: unknown
+  ) {
+    this.dispatchError(
+      new TRPCDataChannelEncryptionError(message, { reason, cause })
+    );
+    if (reason === "key-exchange") {
+      // no frames can be exchanged without keys
+      this.dataChannel.close();
+    }
+  }
+
+  /**
+   * sends this peer's nonce, and ECDH public key, to the remote peer
+   */
+  private startHandshake() {
+    if (this.handshake) {
+      return this.handshake;
+    }
+    this.handshake = (async () => {
+      const { ecdh } = this.opts;
+      const keyPair =
+        ecdh === true
+          ? await crypto.subtle.generateKey(
+              { name: "ECDH", namedCurve: "P-256" },
+              false,
+              ["deriveBits"]
+            )
+          : ecdh || undefined;
+      const publicKey = keyPair
+        ? new Uint8Array(
+            await crypto.subtle.exportKey("raw", keyPair.publicKey)
+          )
+        : new Uint8Array(0);
+      this.dataChannel.send(
+        concat(
+          new Uint8Array([HANDSHAKE_FRAME, keyPair ? 1 : 0]),
+          this.nonce,
+          publicKey
+        )
+      );
+      return keyPair;
+    })();
+    this.handshake.catch((cause) =>
+      this.reject("Failed to start the key exchange", "key-exchange", cause)
+    );
+    return this.handshake;
+  }
+
+  /**
+   * derives the keys from both peers' handshakes, opening the channel
+   */
+  private async completeHandshake(frame: Uint8Array) {
+    const keyPair = await this.startHandshake();
+    const usesEcdh = frame[1] === 1;
+    if (frame.byteLength < 2 + NONCE_SIZE || usesEcdh !== !!keyPair) {
+      this.reject(
+        "Remote peer's key exchange doesn't match this peer's",
+        "key-exchange"
+      );
+      return;
+    }
+    const remoteNonce = frame.subarray(2, 2 + NONCE_SIZE);
+    const secrets: Uint8Array[] = [];
+    if (keyPair) {
+      const remotePublicKey = frame.slice(2 + NONCE_SIZE);
+      if (
+        this.opts.verifyRemoteKey &&
+        !(await this.opts.verifyRemoteKey(remotePublicKey))
+      ) {
+        this.reject("Remote peer's key wasn't verified", "key-exchange");
+        return;
+      }
+      const bits = await crypto.subtle.deriveBits(
+        {
+          name: "ECDH",
+          public: await crypto.subtle.importKey(
+            "raw",
+            remotePublicKey,
+            { name: "ECDH", namedCurve: "P-256" },
+            false,
+            []
+          ),
+        },
+        keyPair.privateKey,
+        256
+      );
+      secrets.push(new Uint8Array(bits));
+    }
+    if (this.opts.preSharedKey) {
+      secrets.push(toBytes(this.opts.preSharedKey));
+    }
+    const secret = await crypto.subtle.importKey(
+      "raw",
+      concat(...secrets),
+      "HKDF",
+      false,
+      ["deriveKey"]
+    );
+    // both peers derive the same salt, with the client's nonce first
+    const salt =
+      this.role === "client"
+        ? concat(this.nonce, remoteNonce)
+        : concat(remoteNonce, this.nonce);
+    const deriveKey = (role: Role, usage: KeyUsage) =>
+      crypto.subtle.deriveKey(
+        {
+          name: "HKDF",
+          hash: "SHA-256",
+          salt,
+          info: textEncoder.encode(`trpc-webrtc ${role}`),
+        },
+        secret,
+        { name: "AES-GCM", length: 256 },
+        false,
+        [usage]
+      );
+    this.keys = {
+      send: await deriveKey(this.role, "encrypt"),
+      receive: await deriveKey(
+        this.role === "client" ? "handler" : "client",
+        "decrypt"
+      ),
+    };
+    // opens once the remote peer's confirmation decrypts with these keys
+    this.sendFrame(CONFIRM_FRAME, new Uint8Array(0), this.keys.send);
+  }
+
+  /**
+   * opens the channel if the remote peer's confirmation decrypts, which it
+   * only does if both peers derived the same keys
+   */
+  private async confirm(frame: Uint8Array, key: CryptoKey) {
+    const sequence = readSequence(frame);
+    try {
+      await crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: toIv(sequence),
+          additionalData: frame.subarray(0, HEADER_SIZE),
+        },
+        key,
+        frame.subarray(HEADER_SIZE)
+      );
+    } catch (cause) {
+      this.reject(
+        "Remote peer derived other keys, so the peers' preSharedKeys differ or a relay exchanged keys in their place",
+        "key-exchange",
+        cause
+      );
+      return;
+    }
+    this.lastReceivedSequence = sequence;
+    this.confirmed = true;
+    this.dispatchEvent(new Event("open"));
+  }
+
+  private async receive(data: unknown) {
+    if (!(data instanceof ArrayBuffer) || data.byteLength === 0) {
+      this.reject("Received an unencrypted frame", "tampered");
+      return;
+    }
+    const frame = new Uint8Array(data);
+    if (frame[0] === HANDSHAKE_FRAME) {
+      if (this.remoteHandshakeReceived) {
+        this.reject("Received a second key exchange", "key-exchange");
+        return;
+      }
+      this.remoteHandshakeReceived = true;
+      try {
+        await this.completeHandshake(frame);
+      } catch (cause) {
+        this.reject(
+          "Failed to complete the key exchange",
+          "key-exchange",
+          cause
+        );
+      }
+      return;
+    }
+    if (
+      frame[0] === CONFIRM_FRAME &&
+      this.keys &&
+      !this.confirmed &&
+      frame.byteLength >= ENCRYPTION_OVERHEAD
+    ) {
+      await this.confirm(frame, this.keys.receive);
+      return;
+    }
+    if (
+      !this.keys ||
+      !this.confirmed ||
+      (frame[0] !== TEXT_FRAME && frame[0] !== BINARY_FRAME) ||
+      frame.byteLength < ENCRYPTION_OVERHEAD
+    ) {
+      this.reject("Received a malformed frame", "tampered");
+      return;
+    }
+    const sequence = readSequence(frame);
+    if (sequence <= this.lastReceivedSequence) {
+      this.reject(`Received frame ${sequence} again`, "replayed");
+      return;
+    }
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: toIv(sequence),
+          additionalData: frame.subarray(0, HEADER_SIZE),
+        },
+        this.keys.receive,
+        frame.subarray(HEADER_SIZE)
+      );
+    } catch (cause) {
+      this.reject(
+        `Frame ${sequence} failed authentication, so was modified or encrypted with another key`,
+        "tampered",
+        cause
+      );
+      return;
+    }
+    this.lastReceivedSequence = sequence;
+    this.dispatchEvent(
+      new MessageEvent("message", {
+        data:
+          frame[0] === TEXT_FRAME ? textDecoder.decode(plaintext) : plaintext,
+      })
+    );
+  }
+}
+
+/**
+ * Encrypts and authenticates the frames sent over a data channel, as `role`.
+ * Both peers must encrypt the data channel with matching options.
+ * @internal
+ */
+export function createEncryptedDataChannel(
+  dataChannel: DataChannelLike,
+  role: Role,
+  opts: DataChannelEncryptionOptions
+): DataChannelLike {
+  if (!opts.preSharedKey && !opts.ecdh) {
+    throw new TypeError("Encryption needs a preSharedKey, ecdh, or both");
+  }
+  return new EncryptedDataChannel(dataChannel, role, opts);
+}
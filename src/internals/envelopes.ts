@@ -0,0 +1,112 @@
+import {
+  JSONRPC2,
+  TRPCClientIncomingMessage,
+  TRPCClientOutgoingMessage,
+  TRPCRequestMessage,
+} from "@trpc/server/rpc";
+
+/**
+ * The version of the protocol spoken by clients and handlers, which must match
+ * for them to communicate
+ */
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * Optional parts of the protocol, which are only used if both peers support them
+ * - `batching` sends several requests in one message
+ * - `chunking` splits messages larger than `maxMessageSize` into several frames
+ * - `codecs` encodes messages with a codec other than `jsonCodec`
+ * - `cancellation` tells the handler to stop working on a request
+ * - `streaming` sends the chunks of query and mutation results that are async iterables
+ * - `unreliable` sends subscription data over a second, unreliable data channel,
+ *   which each peer only supports if it has one
+ */
+export type DataChannelFeature =
+  | "batching"
+  | "chunking"
+  | "codecs"
+  | "cancellation"
+  | "streaming"
+  | "unreliable";
+
+export const SUPPORTED_FEATURES: DataChannelFeature[] = [
+  "batching",
+  "chunking",
+  "codecs",
+  "cancellation",
+  "streaming",
+  "unreliable",
+];
+
+/**
+ * Asks the handler to stop working on an in-flight query or mutation
+ */
+export interface TRPCRequestCancelNotification
+  extends JSONRPC2.BaseRequest<"request.cancel"> {
+  id: JSONRPC2.RequestId;
+}
+
+/**
+ * Asks the handler for `count` more chunks of a streamed result
+ */
+export interface TRPCStreamPullNotification
+  extends JSONRPC2.Request<"stream.pull", { count: number }> {
+  id: JSONRPC2.RequestId;
+}
+
+/**
+ * Starts the handshake, which the client sends (JSON encoded) when a data channel
+ * opens. `codecs` are the names of the codecs the client supports, in order of
+ * preference.
+ */
+export interface TRPCHelloRequest
+  extends JSONRPC2.Request<
+    "hello",
+    {
+      version: number;
+      features: string[];
+      codecs: string[];
+      auth?: unknown;
+    }
+  > {
+  id: null;
+}
+
+/**
+ * Completes the handshake, with the features both peers support and the name of
+ * the codec the handler selected, which both peers use from then on
+ */
+export interface TRPCHelloResponse
+  extends JSONRPC2.Request<
+    "hello",
+    { version: number; features: DataChannelFeature[]; codec: string }
+  > {
+  id: null;
+}
+
+/**
+ * A request, which when re-subscribing carries the id of the last event the
+ * subscription received, see `tracked`. Subscriptions may also ask for their
+ * data to be sent reliably, or not. Traced requests carry the W3C `traceparent`
+ * of the client's span.
+ */
+export type DataChannelRequestMessage = TRPCRequestMessage & {
+  params: { lastEventId?: string; reliable?: boolean; traceparent?: string };
+};
+
+/**
+ * Messages sent from a data channel client to a data channel handler
+ */
+export type DataChannelClientOutgoingMessage =
+  | TRPCClientOutgoingMessage
+  | DataChannelRequestMessage
+  | TRPCRequestCancelNotification
+  | TRPCStreamPullNotification
+  | TRPCHelloRequest;
+
+/**
+ * Messages sent from a data channel handler to a data channel client
+ */
+export type DataChannelClientIncomingMessage =
+  | TRPCClientIncomingMessage
+  | TRPCHelloResponse;
@@ -0,0 +1,18 @@
+/**
+ * A copy of a data channel's event, to dispatch from a data channel wrapping
+ * it. Keeps the `error` of `error` events, such as an `RTCErrorEvent`'s.
+ * @internal
+ */
+export function forwardEvent(event: Event) {
+  return "error" in event
+    ? createErrorEvent(event.error)
+    : new Event(event.type);
+}
+
+/**
+ * An `error` event carrying `error`, as an `RTCErrorEvent` does
+ * @internal
+ */
+export function createErrorEvent(error: unknown) {
+  return Object.assign(new Event("error"), { error });
+}
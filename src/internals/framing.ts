@@ -0,0 +1,378 @@
+import { TRPCDataChannelMessageTooLargeError } from "../errors.js";
+
+/**
+ * Prefixes every text chunk frame. JSON encoded messages always begin with `{`
+ * or `[`, so a frame starting with this character can't be mistaken for a whole message.
+ */
+const CHUNK_MARKER = "\u001e";
+
+/**
+ * Bytes reserved in each text chunk frame for the `<marker><id>:<index>:<count>:` header
+ */
+const CHUNK_HEADER_RESERVE = 64;
+
+/**
+ * Prefixes every binary chunk frame. MessagePack never uses this byte, so a
+ * frame starting with it can't be mistaken for a whole message.
+ */
+const BINARY_CHUNK_MARKER = 0xc1;
+
+/**
+ * Bytes in each binary chunk frame for the `<marker><id><index><count>` header
+ */
+const BINARY_CHUNK_HEADER_SIZE = 13;
+
+/**
+ * A conservative default that every major browser supports
+ * @see https://developer.mozilla.org/en-US/docs/Web/API/RTCSctpTransport/maxMessageSize
+ */
+export const DEFAULT_MAX_MESSAGE_SIZE = 64 * 1024;
+
+export const DEFAULT_MAX_PAYLOAD_SIZE = 16 * 1024 * 1024;
+
+export const DEFAULT_MAX_PARTIAL_MESSAGES = 16;
+
+export const DEFAULT_PARTIAL_MESSAGE_TIMEOUT = 30_000;
+
+/**
+ * Frames are sent as text or binary, depending on the codec
+ */
+export type Frame = string | Uint8Array;
+
+/**
+ * Converts the `data` of a `message` event into a frame
+ */
+export function toFrame(data: unknown): Frame {
+  if (typeof data === "string") {
+    return data;
+  } else if (data instanceof ArrayBuffer) {
+    return new Uint8Array(data);
+  } else if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+  throw new TypeError(
+    'Unsupported message data, is the data channel\'s binaryType "arraybuffer"?'
+  );
+}
+
+export interface FramingOptions {
+  /**
+   * The largest frame that may be passed to `RTCDataChannel.send`, in bytes
+   */
+  maxMessageSize?: number;
+  /**
+   * The largest message that may be sent or reassembled from chunks, in bytes
+   */
+  maxPayloadSize?: number;
+  /**
+   * The most messages that may be partially received at once
+   */
+  maxPartialMessages?: number;
+  /**
+   * The most bytes that may be buffered across partially received messages.
+   * Defaults to `maxPayloadSize`.
+   */
+  maxPartialBytes?: number;
+  /**
+   * Milliseconds after which a partially received message, whose next chunk
+   * hasn't arrived, is discarded
+   */
+  partialMessageTimeout?: number;
+}
+
+/**
+ * Size of a single UTF-16 code unit once UTF-8 encoded. Surrogate pairs are
+ * attributed entirely to the high surrogate, so a split never falls between them.
+ */
+function utf8CodeUnitLength(code: number) {
+  if (code < 0x80) {
+    return 1;
+  } else if (code < 0x800) {
+    return 2;
+  } else if (code >= 0xd800 && code <= 0xdbff) {
+    return 4;
+  } else if (code >= 0xdc00 && code <= 0xdfff) {
+    return 0;
+  }
+  return 3;
+}
+
+function utf8ByteLength(payload: string) {
+  let bytes = 0;
+  for (let i = 0; i < payload.length; i++) {
+    bytes += utf8CodeUnitLength(payload.charCodeAt(i));
+  }
+  return bytes;
+}
+
+/**
+ * The size of a frame once sent, in bytes
+ */
+export function frameByteLength(frame: Frame) {
+  return typeof frame === "string" ? utf8ByteLength(frame) : frame.byteLength;
+}
+
+function splitByByteLength(payload: string, maxBytes: number) {
+  const parts: string[] = [];
+  let start = 0;
+  let bytes = 0;
+  for (let i = 0; i < payload.length; i++) {
+    const size = utf8CodeUnitLength(payload.charCodeAt(i));
+    if (bytes + size > maxBytes) {
+      parts.push(payload.slice(start, i));
+      start = i;
+      bytes = 0;
+    }
+    bytes += size;
+  }
+  parts.push(payload.slice(start));
+  return parts;
+}
+
+function isChunk(frame: Frame) {
+  return typeof frame === "string"
+    ? frame.startsWith(CHUNK_MARKER)
+    : frame[0] === BINARY_CHUNK_MARKER;
+}
+
+function parseChunkHeader(frame: Frame): {
+  id: number;
+  index: number;
+  count: number;
+  data: Frame;
+} {
+  if (typeof frame !== "string") {
+    if (frame.byteLength < BINARY_CHUNK_HEADER_SIZE) {
+      throw new Error("Invalid chunk header");
+    }
+    const view = new DataView(frame.buffer, frame.byteOffset);
+    const index = view.getUint32(5);
+    const count = view.getUint32(9);
+    if (index >= count) {
+      throw new Error("Invalid chunk header");
+    }
+    return {
+      id: view.getUint32(1),
+      index,
+      count,
+      data: frame.subarray(BINARY_CHUNK_HEADER_SIZE),
+    };
+  }
+
+  const header = frame.slice(CHUNK_MARKER.length).split(":", 3);
+  const [id, index, count] = header.map(Number);
+  if (
+    header.length !== 3 ||
+    !Number.isInteger(id) ||
+    !Number.isInteger(index) ||
+    !Number.isInteger(count) ||
+    index < 0 ||
+    index >= count
+  ) {
+    throw new Error("Invalid chunk header");
+  }
+  const dataStart = CHUNK_MARKER.length + header.join(":").length + 1;
+  return { id, index, count, data: frame.slice(dataStart) };
+}
+
+function joinParts(parts: Frame[]): Frame {
+  if (typeof parts[0] === "string") {
+    return parts.join("");
+  }
+  const bytes = parts as Uint8Array[];
+  const joined = new Uint8Array(
+    bytes.reduce((length, part) => length + part.byteLength, 0)
+  );
+  let offset = 0;
+  for (const part of bytes) {
+    joined.set(part, offset);
+    offset += part.byteLength;
+  }
+  return joined;
+}
+
+/**
+ * Splits outgoing messages into frames no larger than `maxMessageSize`, and
+ * reassembles incoming frames into whole messages.
+ * @internal
+ */
+export function createFramer(opts: FramingOptions = {}) {
+  const maxMessageSize = opts.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE;
+  const maxPayloadSize = opts.maxPayloadSize ?? DEFAULT_MAX_PAYLOAD_SIZE;
+  const maxChunkSize = Math.max(1, maxMessageSize - CHUNK_HEADER_RESERVE);
+  const maxBinaryChunkSize = Math.max(
+    1,
+    maxMessageSize - BINARY_CHUNK_HEADER_SIZE
+  );
+
+  const maxPartialMessages =
+    opts.maxPartialMessages ?? DEFAULT_MAX_PARTIAL_MESSAGES;
+  const maxPartialBytes = opts.maxPartialBytes ?? maxPayloadSize;
+  const partialMessageTimeout =
+    opts.partialMessageTimeout ?? DEFAULT_PARTIAL_MESSAGE_TIMEOUT;
+
+  let nextChunkId = 0;
+  const partials = new Map<
+    number,
+    { parts: Frame[]; received: number; length: number; updated: number }
+  >();
+  /**
+   * the length of every partially received message, in code units or bytes
+   */
+  let partialLength = 0;
+
+  function deletePartial(id: number) {
+    const partial = partials.get(id);
+    if (partial) {
+      partials.delete(id);
+      partialLength -= partial.length;
+    }
+  }
+
+  /**
+   * discards the partially received messages whose chunks stopped arriving
+   */
+  function expirePartials(now: number) {
+    for (const [id, { updated }] of partials) {
+      if (now - updated >= partialMessageTimeout) {
+        deletePartial(id);
+      }
+    }
+  }
+
+  function assertPayloadSize(size: number, limit = maxPayloadSize) {
+    if (size > limit) {
+      throw new TRPCDataChannelMessageTooLargeError(
+        `Message of ${size} bytes exceeds the maximum payload size of ${limit} bytes`,
+        { size, limit }
+      );
+    }
+  }
+
+  function encodeBinary(payload: Uint8Array, limit: number) {
+    assertPayloadSize(payload.byteLength, limit);
+    if (payload.byteLength <= maxMessageSize) {
+      return [payload];
+    }
+
+    const id = nextChunkId++;
+    const count = Math.ceil(payload.byteLength / maxBinaryChunkSize);
+    return Array.from({ length: count }, (_, index) => {
+      const part = payload.subarray(
+        index * maxBinaryChunkSize,
+        (index + 1) * maxBinaryChunkSize
+      );
+      const frame = new Uint8Array(BINARY_CHUNK_HEADER_SIZE + part.byteLength);
+      const view = new DataView(frame.buffer);
+      view.setUint8(0, BINARY_CHUNK_MARKER);
+      view.setUint32(1, id);
+      view.setUint32(5, index);
+      view.setUint32(9, count);
+      frame.set(part, BINARY_CHUNK_HEADER_SIZE);
+      return frame;
+    });
+  }
+
+  return {
+    /**
+     * Converts an encoded message into the frames that should be sent, in order.
+     * Without `chunking`, which the remote peer may not support, messages must
+     * fit in a single frame.
+     */
+    encode(payload: Frame, { chunking = true } = {}): Frame[] {
+      const limit = chunking
+        ? maxPayloadSize
+        : Math.min(maxPayloadSize, maxMessageSize);
+      if (typeof payload !== "string") {
+        return encodeBinary(payload, limit);
+      }
+      // every code unit encodes to at most 3 bytes, so short payloads can skip measuring
+      if (payload.length * 3 <= Math.min(maxMessageSize, limit)) {
+        return [payload];
+      }
+      const size = utf8ByteLength(payload);
+      assertPayloadSize(size, limit);
+      if (size <= maxMessageSize) {
+        return [payload];
+      }
+
+      const id = nextChunkId++;
+      const parts = splitByByteLength(payload, maxChunkSize);
+      return parts.map(
+        (part, index) => `${CHUNK_MARKER}${id}:${index}:${parts.length}:${part}`
+      );
+    },
+    /**
+     * Consumes an incoming frame, returning the whole message once every chunk
+     * of it has arrived
+     */
+    decode(frame: Frame): Frame | undefined {
+      if (!isChunk(frame)) {
+        // the length in code units is a lower bound of the size in bytes
+        assertPayloadSize(
+          typeof frame === "string" ? frame.length : frame.byteLength
+        );
+        return frame;
+      }
+
+      const { id, index, count, data } = parseChunkHeader(frame);
+      // every chunk carries at least one byte
+      assertPayloadSize(count);
+      const now = Date.now();
+      expirePartials(now);
+      let partial = partials.get(id);
+      if (!partial) {
+        if (partials.size >= maxPartialMessages) {
+          throw new Error(
+            `More than ${maxPartialMessages} messages are partially received`
+          );
+        }
+        partial = {
+          parts: new Array(count),
+          received: 0,
+          length: 0,
+          updated: now,
+        };
+        partials.set(id, partial);
+      }
+      if (partial.parts.length !== count) {
+        deletePartial(id);
+        throw new Error("Inconsistent chunk count");
+      }
+      partial.updated = now;
+      if (partial.parts[index] === undefined) {
+        const length = typeof data === "string" ? data.length : data.byteLength;
+        partial.parts[index] = data;
+        partial.received++;
+        partial.length += length;
+        partialLength += length;
+      }
+
+      try {
+        // the length in code units is a lower bound of the size in bytes
+        assertPayloadSize(partial.length);
+        if (partialLength > maxPartialBytes) {
+          throw new Error(
+            `Partially received messages exceed ${maxPartialBytes} bytes`
+          );
+        }
+      } catch (err) {
+        deletePartial(id);
+        throw err;
+      }
+
+      if (partial.received < count) {
+        return undefined;
+      }
+      deletePartial(id);
+      return joinParts(partial.parts);
+    },
+    /**
+     * Discards any partially received messages
+     */
+    reset() {
+      partials.clear();
+      partialLength = 0;
+    },
+  };
+}
@@ -0,0 +1,369 @@
+import { ProcedureType } from "@trpc/server";
+
+/**
+ * Whether an event was reported by a client or a handler
+ */
+export type DataChannelSide = "client" | "handler";
+
+/**
+ * How a request ended
+ * - `ok` once its response, or the end of its stream or subscription, arrived
+ * - `error` if it failed, or its procedure threw
+ * - `cancelled` if it was stopped before then
+ */
+export type DataChannelRequestOutcome = "ok" | "error" | "cancelled";
+
+/**
+ * Reported once a query, mutation or subscription ends
+ */
+export interface DataChannelRequestEvent {
+  side: DataChannelSide;
+  id: number | string;
+  path: string;
+  type: ProcedureType;
+  /**
+   * Milliseconds from the request being made, or received by a handler, until
+   * it ended
+   */
+  duration: number;
+  /**
+   * The encoded request, in bytes
+   */
+  requestSize: number;
+  /**
+   * The encoded responses, including each chunk and each piece of subscription
+   * data, in bytes
+   */
+  responseSize: number;
+  outcome: DataChannelRequestOutcome;
+  /**
+   * Set if the outcome is `error`. Clients report the error shape sent by the
+   * handler, or the error the request failed with.
+   */
+  error?: unknown;
+}
+
+/**
+ * Reported for each batch of messages sent or received
+ */
+export interface DataChannelBatchEvent {
+  side: DataChannelSide;
+  direction: "sent" | "received";
+  /**
+   * The number of messages in the batch
+   */
+  size: number;
+  /**
+   * The encoded batch, in bytes
+   */
+  bytes: number;
+}
+
+/**
+ * Reported when a subscription starts, for each piece of its data, and when it
+ * stops
+ */
+export interface DataChannelSubscriptionEvent {
+  side: DataChannelSide;
+  id: number | string;
+  path: string;
+  event: "started" | "data" | "stopped";
+  /**
+   * The encoded message, in bytes
+   */
+  size: number;
+}
+
+/**
+ * Hooks for structured logging and metrics, called as requests are handled
+ */
+export interface DataChannelInstrumentation {
+  onRequest?: (event: DataChannelRequestEvent) => void;
+  onBatch?: (event: DataChannelBatchEvent) => void;
+  onSubscriptionEvent?: (event: DataChannelSubscriptionEvent) => void;
+}
+
+export type DataChannelAttributes = Record<
+  string,
+  string | number | boolean | undefined
+>;
+
+/**
+ * Identifies a span, as in OpenTelemetry
+ */
+export interface DataChannelSpanContext {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+  isRemote?: boolean;
+}
+
+/**
+ * The subset of an OpenTelemetry `Span` that clients and handlers use
+ */
+export interface DataChannelSpan {
+  spanContext(): DataChannelSpanContext;
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  addEvent(name: string, attributes?: DataChannelAttributes): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): void;
+  end(): void;
+}
+
+/**
+ * The subset of an OpenTelemetry `Tracer` that clients and handlers use, so
+ * `trace.getTracer("trpc-webrtc")` may be passed as is. Handler spans link to
+ * the client spans of the requests they handle.
+ */
+export interface DataChannelTracer {
+  startSpan(
+    name: string,
+    options?: {
+      kind?: number;
+      attributes?: DataChannelAttributes;
+      links?: { context: DataChannelSpanContext }[];
+    }
+  ): DataChannelSpan;
+}
+
+/**
+ * `SpanKind` and `SpanStatusCode` values, as in OpenTelemetry
+ */
+const SPAN_KIND_SERVER = 1;
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+
+const TRACEPARENT = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * The W3C `traceparent` of a span, which requests carry to the handler
+ */
+function toTraceparent({
+  traceId,
+  spanId,
+  traceFlags,
+}: DataChannelSpanContext) {
+  return `00-${traceId}-${spanId}-${traceFlags.toString(16).padStart(2, "0")}`;
+}
+
+function fromTraceparent(
+  traceparent: string
+): DataChannelSpanContext | undefined {
+  const match = TRACEPARENT.exec(traceparent);
+  return match
+    ? {
+        traceId: match[1],
+        spanId: match[2],
+        traceFlags: parseInt(match[3], 16),
+        isRemote: true,
+      }
+    : undefined;
+}
+
+function errorMessage(error: unknown) {
+  return typeof error === "object" &&
+    error !== null &&
+    "message" in error &&
+    typeof error.message === "string"
+    ? error.message
+    : String(error);
+}
+
+type TracedRequest = {
+  path: string;
+  type: ProcedureType;
+  start: number;
+  requestSize: number;
+  responseSize: number;
+  /**
+   * set once a subscription or streamed result starts
+   */
+  started: boolean;
+  span?: DataChannelSpan;
+};
+
+/**
+ * Reports the requests made by a client, or handled by a handler for a
+ * connection, to its instrumentation hooks and tracer.
+ * @internal
+ */
+export function createInstrumenter(
+  side: DataChannelSide,
+  opts: {
+    instrumentation?: DataChannelInstrumentation;
+    tracer?: DataChannelTracer;
+  }
+) {
+  const { instrumentation, tracer } = opts;
+  const enabled = !!(
+    instrumentation?.onRequest ||
+    instrumentation?.onBatch ||
+    instrumentation?.onSubscriptionEvent ||
+    tracer
+  );
+  const requests = new Map<number | string, TracedRequest>();
+
+  function end(
+    id: number | string,
+    outcome: DataChannelRequestOutcome,
+    error?: unknown
+  ) {
+    const req = requests.get(id);
+    if (!req) {
+      return;
+    }
+    requests.delete(id);
+    const { path, type, requestSize, responseSize, span } = req;
+    if (span) {
+      span.setAttribute("trpc.request.size", requestSize);
+      span.setAttribute("trpc.response.size", responseSize);
+      span.setAttribute("trpc.outcome", outcome);
+      if (outcome === "error") {
+        span.recordException(
+          error instanceof Error ? error : errorMessage(error)
+        );
+        span.setStatus({
+          code: SPAN_STATUS_ERROR,
+          message: errorMessage(error),
+        });
+      } else if (outcome === "ok") {
+        span.setStatus({ code: SPAN_STATUS_OK });
+      }
+      span.end();
+    }
+    instrumentation?.onRequest?.({
+      side,
+      id,
+      path,
+      type,
+      duration: Date.now() - req.start,
+      requestSize,
+      responseSize,
+      outcome,
+      ...(outcome === "error" && { error }),
+    });
+  }
+
+  return {
+    /**
+     * whether anything is listening, so sizes are worth measuring
+     */
+    enabled,
+    /**
+     * starts tracing a request, returning the `traceparent` of its span
+     */
+    startRequest({
+      id,
+      path,
+      type,
+      requestSize = 0,
+      traceparent,
+    }: {
+      id: number | string;
+      path: string;
+      type: ProcedureType;
+      requestSize?: number;
+      /**
+       * of the client's span, which the handler's span links to
+       */
+      traceparent?: string;
+    }) {
+      if (!enabled) {
+        return undefined;
+      }
+      const remote = traceparent && fromTraceparent(traceparent);
+      const span = tracer?.startSpan(path, {
+        kind: side === "client" ? SPAN_KIND_CLIENT : SPAN_KIND_SERVER,
+        attributes: {
+          "rpc.system": "trpc",
+          "rpc.method": path,
+          "trpc.type": type,
+          "trpc.request.id": String(id),
+        },
+        ...(remote && { links: [{ context: remote }] }),
+      });
+      requests.set(id, {
+        path,
+        type,
+        start: Date.now(),
+        requestSize,
+        responseSize: 0,
+        started: false,
+        span,
+      });
+      return span && toTraceparent(span.spanContext());
+    },
+    /**
+     * records the size of a request's encoded message
+     */
+    setRequestSize(id: number | string, requestSize: number) {
+      const req = requests.get(id);
+      if (req) {
+        req.requestSize = requestSize;
+      }
+    },
+    /**
+     * records a response to a request, ending it if it's the last
+     */
+    response(message: object, size: number) {
+      const { id, result, error } = message as {
+        id?: unknown;
+        result?: { type?: unknown };
+        error?: unknown;
+      };
+      if (typeof id !== "number" && typeof id !== "string") {
+        return;
+      }
+      const req = requests.get(id);
+      if (!req) {
+        return;
+      }
+      req.responseSize += size;
+      if (error !== undefined) {
+        end(id, "error", error);
+        return;
+      }
+      const event =
+        result?.type === "started" || result?.type === "stopped"
+          ? result.type
+          : "data";
+      if (event === "started") {
+        req.started = true;
+      }
+      req.span?.addEvent(event, { "trpc.message.size": size });
+      if (req.type === "subscription") {
+        instrumentation?.onSubscriptionEvent?.({
+          side,
+          id,
+          path: req.path,
+          event,
+          size,
+        });
+      }
+      if (
+        event === "stopped" ||
+        // the only response to a query or mutation that isn't streamed
+        (event === "data" && req.type !== "subscription" && !req.started)
+      ) {
+        end(id, "ok");
+      }
+    },
+    end,
+    /**
+     * ends every request that's still being traced
+     */
+    endAll(outcome: DataChannelRequestOutcome, error?: unknown) {
+      for (const id of [...requests.keys()]) {
+        end(id, outcome, error);
+      }
+    },
+    batch(
+      direction: DataChannelBatchEvent["direction"],
+      size: number,
+      bytes: number
+    ) {
+      instrumentation?.onBatch?.({ side, direction, size, bytes });
+    },
+  };
+}
@@ -0,0 +1,490 @@
+// a minimal MessagePack implementation, see https://github.com/msgpack/msgpack/blob/master/spec.md
+
+/**
+ * The predefined timestamp extension, used for `Date`
+ */
+const EXT_TIMESTAMP = -1;
+
+/**
+ * Application specific extensions, so `Map` and `Set` survive the round trip
+ */
+const EXT_MAP = 1;
+const EXT_SET = 2;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+function createWriter() {
+  let bytes = new Uint8Array(256);
+  let view = new DataView(bytes.buffer);
+  let length = 0;
+
+  function reserve(size: number) {
+    if (length + size <= bytes.byteLength) {
+      return;
+    }
+    let capacity = bytes.byteLength * 2;
+    while (capacity < length + size) {
+      capacity *= 2;
+    }
+    const grown = new Uint8Array(capacity);
+    grown.set(bytes.subarray(0, length));
+    bytes = grown;
+    view = new DataView(bytes.buffer);
+  }
+
+  return {
+    u8(value: number) {
+      reserve(1);
+      view.setUint8(length, value);
+      length += 1;
+    },
+    u16(value: number) {
+      reserve(2);
+      view.setUint16(length, value);
+      length += 2;
+    },
+    u32(value: number) {
+      reserve(4);
+      view.setUint32(length, value);
+      length += 4;
+    },
+    i8(value: number) {
+      reserve(1);
+      view.setInt8(length, value);
+      length += 1;
+    },
+    i16(value: number) {
+      reserve(2);
+      view.setInt16(length, value);
+      length += 2;
+    },
+    i32(value: number) {
+      reserve(4);
+      view.setInt32(length, value);
+      length += 4;
+    },
+    u64(value: bigint) {
+      reserve(8);
+      view.setBigUint64(length, value);
+      length += 8;
+    },
+    i64(value: bigint) {
+      reserve(8);
+      view.setBigInt64(length, value);
+      length += 8;
+    },
+    f64(value: number) {
+      reserve(8);
+      view.setFloat64(length, value);
+      length += 8;
+    },
+    bytes(value: Uint8Array) {
+      reserve(value.byteLength);
+      bytes.set(value, length);
+      length += value.byteLength;
+    },
+    finish() {
+      return bytes.slice(0, length);
+    },
+  };
+}
+
+type Writer = ReturnType<typeof createWriter>;
+
+function writeHeader(
+  writer: Writer,
+  length: number,
+  fix: { mask: number; max: number } | undefined,
+  sized: [number, number, number]
+) {
+  if (fix && length <= fix.max) {
+    writer.u8(fix.mask | length);
+  } else if (length <= 0xff && sized[0] !== 0) {
+    writer.u8(sized[0]);
+    writer.u8(length);
+  } else if (length <= 0xffff) {
+    writer.u8(sized[1]);
+    writer.u16(length);
+  } else {
+    writer.u8(sized[2]);
+    writer.u32(length);
+  }
+}
+
+function writeExt(writer: Writer, type: number, data: Uint8Array) {
+  writeHeader(writer, data.byteLength, undefined, [0xc7, 0xc8, 0xc9]);
+  writer.i8(type);
+  writer.bytes(data);
+}
+
+function writeInteger(writer: Writer, value: number | bigint) {
+  if (value >= 0) {
+    if (value < 0x80) {
+      writer.u8(Number(value));
+    } else if (value <= 0xff) {
+      writer.u8(0xcc);
+      writer.u8(Number(value));
+    } else if (value <= 0xffff) {
+      writer.u8(0xcd);
+      writer.u16(Number(value));
+    } else if (value <= 0xffffffff) {
+      writer.u8(0xce);
+      writer.u32(Number(value));
+    } else {
+      writer.u8(0xcf);
+      writer.u64(BigInt(value));
+    }
+  } else {
+    if (value >= -0x20) {
+      writer.i8(Number(value));
+    } else if (value >= -0x80) {
+      writer.u8(0xd0);
+      writer.i8(Number(value));
+    } else if (value >= -0x8000) {
+      writer.u8(0xd1);
+      writer.i16(Number(value));
+    } else if (value >= -0x80000000) {
+      writer.u8(0xd2);
+      writer.i32(Number(value));
+    } else {
+      writer.u8(0xd3);
+      writer.i64(BigInt(value));
+    }
+  }
+}
+
+function writeValue(writer: Writer, value: unknown): void {
+  if (value === null || value === undefined) {
+    writer.u8(0xc0);
+  } else if (typeof value === "boolean") {
+    writer.u8(value ? 0xc3 : 0xc2);
+  } else if (typeof value === "number") {
+    if (Number.isSafeInteger(value)) {
+      writeInteger(writer, value);
+    } else {
+      writer.u8(0xcb);
+      writer.f64(value);
+    }
+  } else if (typeof value === "bigint") {
+    if (value > 0xffffffffffffffffn || value < -0x8000000000000000n) {
+      // rather than truncated to another value
+      throw new RangeError(
+        `Unable to encode ${value}, as MessagePack integers are at most 64 bits`
+      );
+    }
+    writeInteger(writer, value);
+  } else if (typeof value === "string") {
+    const data = textEncoder.encode(value);
+    writeHeader(
+      writer,
+      data.byteLength,
+      { mask: 0xa0, max: 31 },
+      [0xd9, 0xda, 0xdb]
+    );
+    writer.bytes(data);
+  } else if (value instanceof Uint8Array) {
+    writeHeader(writer, value.byteLength, undefined, [0xc4, 0xc5, 0xc6]);
+    writer.bytes(value);
+  } else if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    writeValue(
+      writer,
+      value instanceof ArrayBuffer
+        ? new Uint8Array(value)
+        : new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+    );
+  } else if (Array.isArray(value)) {
+    writeHeader(writer, value.length, { mask: 0x90, max: 15 }, [0, 0xdc, 0xdd]);
+    for (const item of value) {
+      writeValue(writer, item);
+    }
+  } else if (value instanceof Date) {
+    const time = value.getTime();
+    const seconds = Math.floor(time / 1000);
+    const data = createWriter();
+    data.u32((time - seconds * 1000) * 1e6);
+    data.i64(BigInt(seconds));
+    writeExt(writer, EXT_TIMESTAMP, data.finish());
+  } else if (value instanceof Map) {
+    const data = createWriter();
+    writeEntries(data, [...value.entries()]);
+    writeExt(writer, EXT_MAP, data.finish());
+  } else if (value instanceof Set) {
+    const data = createWriter();
+    writeValue(data, [...value]);
+    writeExt(writer, EXT_SET, data.finish());
+  } else if (typeof value === "object") {
+    if ("toJSON" in value && typeof value.toJSON === "function") {
+      writeValue(writer, value.toJSON());
+      return;
+    }
+    // like JSON, properties that are undefined are omitted
+    writeEntries(
+      writer,
+      Object.entries(value).filter(([, item]) => item !== undefined)
+    );
+  } else {
+    throw new TypeError(`Unable to encode value of type ${typeof value}`);
+  }
+}
+
+function writeEntries(writer: Writer, entries: [unknown, unknown][]) {
+  writeHeader(writer, entries.length, { mask: 0x80, max: 15 }, [0, 0xde, 0xdf]);
+  for (const [key, item] of entries) {
+    writeValue(writer, key);
+    writeValue(writer, item);
+  }
+}
+
+/**
+ * How deeply values are nested by default, well within the stack of every
+ * major browser
+ * @internal
+ */
+export const DEFAULT_MAX_DECODE_DEPTH = 512;
+
+function createReader(bytes: Uint8Array, maxDepth: number) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+  let depth = 0;
+
+  function advance(size: number) {
+    if (offset + size > bytes.byteLength) {
+      throw new RangeError("Unexpected end of MessagePack data");
+    }
+    const start = offset;
+    offset += size;
+    return start;
+  }
+
+  return {
+    u8: () => view.getUint8(advance(1)),
+    u16: () => view.getUint16(advance(2)),
+    u32: () => view.getUint32(advance(4)),
+    i8: () => view.getInt8(advance(1)),
+    i16: () => view.getInt16(advance(2)),
+    i32: () => view.getInt32(advance(4)),
+    u64: () => view.getBigUint64(advance(8)),
+    i64: () => view.getBigInt64(advance(8)),
+    f32: () => view.getFloat32(advance(4)),
+    f64: () => view.getFloat64(advance(8)),
+    bytes: (size: number) => bytes.slice(advance(size), offset),
+    /**
+     * reads a nested value, failing before deep nesting overflows the stack
+     */
+    nested<T>(read: () => T): T {
+      if (depth >= maxDepth) {
+        throw new RangeError(
+          `MessagePack data is nested deeper than the maxDepth of ${maxDepth}`
+        );
+      }
+      depth++;
+      try {
+        return read();
+      } finally {
+        depth--;
+      }
+    },
+    /**
+     * how much deeper values may be nested, for the readers of extensions
+     */
+    get remainingDepth() {
+      return maxDepth - depth;
+    },
+    get done() {
+      return offset === bytes.byteLength;
+    },
+  };
+}
+
+type Reader = ReturnType<typeof createReader>;
+
+function toSafeNumber(value: bigint) {
+  return value >= Number.MIN_SAFE_INTEGER && value <= Number.MAX_SAFE_INTEGER
+    ? Number(value)
+    : value;
+}
+
+function readExt(reader: Reader, size: number) {
+  const type = reader.i8();
+  const data = reader.bytes(size);
+  if (type === EXT_TIMESTAMP) {
+    const ext = createReader(data, reader.remainingDepth);
+    if (size === 4) {
+      return new Date(ext.u32() * 1000);
+    } else if (size === 8) {
+      const high = ext.u32();
+      const low = ext.u32();
+      const nanoseconds = high >>> 2;
+      const seconds = (high & 0x3) * 0x100000000 + low;
+      return new Date(seconds * 1000 + nanoseconds / 1e6);
+    } else if (size === 12) {
+      const nanoseconds = ext.u32();
+      const seconds = Number(ext.i64());
+      return new Date(seconds * 1000 + nanoseconds / 1e6);
+    }
+  } else if (type === EXT_MAP) {
+    const ext = createReader(data, reader.remainingDepth);
+    return ext.nested(() => new Map(readEntries(ext, readMapLength(ext))));
+  } else if (type === EXT_SET) {
+    const ext = createReader(data, reader.remainingDepth);
+    return new Set(readValue(ext) as unknown[]);
+  }
+  throw new TypeError(`Unsupported MessagePack extension type ${type}`);
+}
+
+function readMapLength(reader: Reader) {
+  const byte = reader.u8();
+  if ((byte & 0xf0) === 0x80) {
+    return byte & 0x0f;
+  } else if (byte === 0xde) {
+    return reader.u16();
+  } else if (byte === 0xdf) {
+    return reader.u32();
+  }
+  throw new TypeError("Expected a MessagePack map");
+}
+
+function readEntries(reader: Reader, length: number) {
+  const entries: [unknown, unknown][] = [];
+  for (let i = 0; i < length; i++) {
+    entries.push([readValue(reader), readValue(reader)]);
+  }
+  return entries;
+}
+
+function readArray(reader: Reader, length: number) {
+  const items: unknown[] = [];
+  reader.nested(() => {
+    for (let i = 0; i < length; i++) {
+      items.push(readValue(reader));
+    }
+  });
+  return items;
+}
+
+function readObject(reader: Reader, length: number) {
+  const obj: Record<string, unknown> = {};
+  const entries = reader.nested(() => readEntries(reader, length));
+  for (const [key, item] of entries) {
+    if (typeof key !== "string" && typeof key !== "number") {
+      throw new TypeError("MessagePack map keys must be strings or numbers");
+    }
+    // avoid assigning the prototype of `obj` from untrusted data
+    Object.defineProperty(obj, key, {
+      value: item,
+      enumerable: true,
+      writable: true,
+      configurable: true,
+    });
+  }
+  return obj;
+}
+
+function readValue(reader: Reader): unknown {
+  const byte = reader.u8();
+  if (byte < 0x80) {
+    return byte;
+  } else if (byte < 0x90) {
+    return readObject(reader, byte & 0x0f);
+  } else if (byte < 0xa0) {
+    return readArray(reader, byte & 0x0f);
+  } else if (byte < 0xc0) {
+    return textDecoder.decode(reader.bytes(byte & 0x1f));
+  } else if (byte >= 0xe0) {
+    return byte - 0x100;
+  }
+
+  switch (byte) {
+    case 0xc0:
+      return null;
+    case 0xc2:
+      return false;
+    case 0xc3:
+      return true;
+    case 0xc4:
+      return reader.bytes(reader.u8());
+    case 0xc5:
+      return reader.bytes(reader.u16());
+    case 0xc6:
+      return reader.bytes(reader.u32());
+    case 0xc7:
+      return readExt(reader, reader.u8());
+    case 0xc8:
+      return readExt(reader, reader.u16());
+    case 0xc9:
+      return readExt(reader, reader.u32());
+    case 0xca:
+      return reader.f32();
+    case 0xcb:
+      return reader.f64();
+    case 0xcc:
+      return reader.u8();
+    case 0xcd:
+      return reader.u16();
+    case 0xce:
+      return reader.u32();
+    case 0xcf:
+      return toSafeNumber(reader.u64());
+    case 0xd0:
+      return reader.i8();
+    case 0xd1:
+      return reader.i16();
+    case 0xd2:
+      return reader.i32();
+    case 0xd3:
+      return toSafeNumber(reader.i64());
+    case 0xd4:
+      return readExt(reader, 1);
+    case 0xd5:
+      return readExt(reader, 2);
+    case 0xd6:
+      return readExt(reader, 4);
+    case 0xd7:
+      return readExt(reader, 8);
+    case 0xd8:
+      return readExt(reader, 16);
+    case 0xd9:
+      return textDecoder.decode(reader.bytes(reader.u8()));
+    case 0xda:
+      return textDecoder.decode(reader.bytes(reader.u16()));
+    case 0xdb:
+      return textDecoder.decode(reader.bytes(reader.u32()));
+    case 0xdc:
+      return readArray(reader, reader.u16());
+    case 0xdd:
+      return readArray(reader, reader.u32());
+    case 0xde:
+      return readObject(reader, reader.u16());
+    case 0xdf:
+      return readObject(reader, reader.u32());
+  }
+  throw new TypeError(`Invalid MessagePack byte 0x${byte.toString(16)}`);
+}
+
+/**
+ * Encodes a value as MessagePack, with `Date`, `Map`, `Set` and binary support
+ * @internal
+ */
+export function encodeMsgpack(value: unknown): Uint8Array {
+  const writer = createWriter();
+  writeValue(writer, value);
+  return writer.finish();
+}
+
+/**
+ * Decodes a single MessagePack value, whose arrays and maps are nested no
+ * deeper than `maxDepth`
+ * @internal
+ */
+export function decodeMsgpack(
+  bytes: Uint8Array,
+  maxDepth = DEFAULT_MAX_DECODE_DEPTH
+): unknown {
+  const reader = createReader(bytes, maxDepth);
+  const value = readValue(reader);
+  if (!reader.done) {
+    throw new RangeError("Unexpected data after MessagePack value");
+  }
+  return value;
+}
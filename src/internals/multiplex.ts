@@ -0,0 +1,208 @@
+import {
+  DataChannelLike,
+  DataChannelLikeEventType,
+} from "../data-channel-like.js";
+import { forwardEvent } from "./forwardEvent.js";
+
+/**
+ * Separates a text frame's tag from its data
+ */
+const TAG_SEPARATOR = "\u001f";
+
+const MAX_TAG_SIZE = 255;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * The number of bytes a tag adds to each frame, which senders should subtract
+ * from their `maxMessageSize`
+ * @internal
+ */
+export function multiplexOverhead(tag: string) {
+  return textEncoder.encode(tag).byteLength + 1;
+}
+
+function assertIsValidTag(tag: string) {
+  if (
+    tag.length === 0 ||
+    tag.includes(TAG_SEPARATOR) ||
+    textEncoder.encode(tag).byteLength > MAX_TAG_SIZE
+  ) {
+    throw new TypeError(`Invalid multiplex tag "${tag}"`);
+  }
+}
+
+/**
+ * A channel within a multiplexed data channel. It shares the underlying data
+ * channel's lifetime, except that closing it only closes it locally.
+ */
+class MultiplexedDataChannel extends EventTarget implements DataChannelLike {
+  binaryType: BinaryType = "arraybuffer";
+  private closed = false;
+
+  constructor(
+    private readonly dataChannel: DataChannelLike,
+    private readonly outbound: string,
+    private readonly onClose: () => void
+  ) {
+    super();
+  }
+
+  get label() {
+    return this.dataChannel.label;
+  }
+
+  get protocol() {
+    return this.dataChannel.protocol;
+  }
+
+  get id() {
+    return this.dataChannel.id;
+  }
+
+  get readyState(): RTCDataChannelState {
+    return this.closed ? "closed" : this.dataChannel.readyState;
+  }
+
+  get bufferedAmount() {
+    return this.dataChannel.bufferedAmount;
+  }
+
+  get bufferedAmountLowThreshold() {
+    return this.dataChannel.bufferedAmountLowThreshold;
+  }
+
+  set bufferedAmountLowThreshold(value: number) {
+    this.dataChannel.bufferedAmountLowThreshold = value;
+  }
+
+  send(data: string | ArrayBufferView) {
+    if (this.readyState !== "open") {
+      throw new DOMException("Data channel is not open", "InvalidStateError");
+    }
+    if (typeof data === "string") {
+      this.dataChannel.send(this.outbound + TAG_SEPARATOR + data);
+      return;
+    }
+    const tag = textEncoder.encode(this.outbound);
+    const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    const frame = new Uint8Array(1 + tag.byteLength + bytes.byteLength);
+    frame[0] = tag.byteLength;
+    frame.set(tag, 1);
+    frame.set(bytes, 1 + tag.byteLength);
+    this.dataChannel.send(frame);
+  }
+
+  close() {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.onClose();
+    this.dispatchEvent(new Event("close"));
+  }
+
+  /**
+   * Re-dispatches an event from the underlying data channel
+   */
+  receive(event: Event) {
+    if (this.closed) {
+      return;
+    }
+    if (event.type === "close") {
+      this.closed = true;
+    }
+    this.dispatchEvent(event);
+  }
+}
+
+/**
+ * Splits a data channel into channels that each carry frames with their own
+ * tag, so several clients and handlers can share it without seeing each other's
+ * messages. Both peers must multiplex the data channel with the same tags.
+ */
+function createMultiplexer(dataChannel: DataChannelLike) {
+  /**
+   * channels by the tag of the frames they receive
+   */
+  const channels = new Map<string, MultiplexedDataChannel>();
+
+  // tags are read from binary frames synchronously, so they can't be `Blob`s
+  dataChannel.binaryType = "arraybuffer";
+
+  const onMessage = ({ data }: MessageEvent) => {
+    let tag: string;
+    let payload: string | ArrayBuffer;
+    if (typeof data === "string") {
+      const index = data.indexOf(TAG_SEPARATOR);
+      if (index === -1) {
+        // not multiplexed, so there's no channel to deliver it to
+        return;
+      }
+      tag = data.slice(0, index);
+      payload = data.slice(index + 1);
+    } else if (data instanceof ArrayBuffer && data.byteLength > 0) {
+      const size = new Uint8Array(data, 0, 1)[0];
+      tag = textDecoder.decode(new Uint8Array(data, 1, size));
+      payload = data.slice(1 + size);
+    } else {
+      return;
+    }
+    channels.get(tag)?.receive(new MessageEvent("message", { data: payload }));
+  };
+  const forward = (event: Event) => {
+    for (const channel of channels.values()) {
+      channel.receive(forwardEvent(event));
+    }
+  };
+  const events: DataChannelLikeEventType[] = [
+    "open",
+    "close",
+    "error",
+    "bufferedamountlow",
+  ];
+
+  dataChannel.addEventListener("message", onMessage);
+  for (const type of events) {
+    dataChannel.addEventListener(type, forward);
+  }
+
+  return {
+    /**
+     * Creates a channel that sends frames tagged `outbound`, and receives
+     * frames tagged `inbound`
+     */
+    channel({ inbound, outbound }: { inbound: string; outbound: string }) {
+      assertIsValidTag(inbound);
+      assertIsValidTag(outbound);
+      if (channels.has(inbound)) {
+        throw new Error(`A channel already receives "${inbound}" frames`);
+      }
+      const channel = new MultiplexedDataChannel(dataChannel, outbound, () =>
+        channels.delete(inbound)
+      );
+      channels.set(inbound, channel);
+      return channel as DataChannelLike;
+    },
+  };
+}
+
+const multiplexers = new WeakMap<
+  DataChannelLike,
+  ReturnType<typeof createMultiplexer>
+>();
+
+/**
+ * Gets the multiplexer of a data channel, creating it the first time, so every
+ * channel within the data channel shares one set of listeners and tags
+ * @internal
+ */
+export function getMultiplexer(dataChannel: DataChannelLike) {
+  let multiplexer = multiplexers.get(dataChannel);
+  if (!multiplexer) {
+    multiplexer = createMultiplexer(dataChannel);
+    multiplexers.set(dataChannel, multiplexer);
+  }
+  return multiplexer;
+}
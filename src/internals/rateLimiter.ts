@@ -0,0 +1,70 @@
+/**
+ * How many calls may be made in a window of time
+ * - `token-bucket` refills `limit` tokens evenly over each window, allowing bursts of up to `limit` calls
+ * - `sliding-window` allows `limit` calls within any `window` milliseconds
+ */
+export interface RateLimit {
+  limit: number;
+  /**
+   * Milliseconds
+   */
+  window: number;
+  /**
+   * Defaults to `"token-bucket"`
+   */
+  strategy?: "token-bucket" | "sliding-window";
+}
+
+type Bucket =
+  | { strategy: "token-bucket"; tokens: number; updated: number }
+  | { strategy: "sliding-window"; calls: number[] };
+
+/**
+ * Tracks the calls made under each key, against the rate limit given for it.
+ * @internal
+ */
+export function createRateLimiter() {
+  const buckets = new Map<string, Bucket>();
+
+  function getBucket(key: string, strategy: Bucket["strategy"], now: number) {
+    let bucket = buckets.get(key);
+    if (!bucket || bucket.strategy !== strategy) {
+      bucket =
+        strategy === "token-bucket"
+          ? { strategy, tokens: Infinity, updated: now }
+          : { strategy, calls: [] };
+      buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  return {
+    /**
+     * Counts a call under `key`, returning false if it exceeds `rateLimit`
+     */
+    tryAcquire(key: string, rateLimit: RateLimit, now = Date.now()) {
+      const { limit, window, strategy = "token-bucket" } = rateLimit;
+      const bucket = getBucket(key, strategy, now);
+      if (bucket.strategy === "token-bucket") {
+        bucket.tokens = Math.min(
+          limit,
+          bucket.tokens + ((now - bucket.updated) * limit) / window
+        );
+        bucket.updated = now;
+        if (bucket.tokens < 1) {
+          return false;
+        }
+        bucket.tokens--;
+        return true;
+      }
+      while (bucket.calls.length > 0 && bucket.calls[0] <= now - window) {
+        bucket.calls.shift();
+      }
+      if (bucket.calls.length >= limit) {
+        return false;
+      }
+      bucket.calls.push(now);
+      return true;
+    },
+  };
+}
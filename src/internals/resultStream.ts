@@ -0,0 +1,123 @@
+/**
+ * The number of chunks a handler may send ahead of those the client has
+ * consumed, before waiting for a `stream.pull`
+ */
+export const STREAM_WINDOW = 16;
+
+/**
+ * @internal
+ */
+export function isAsyncIterable(
+  value: unknown
+): value is AsyncIterable<unknown> {
+  return (
+    typeof value === "object" && value !== null && Symbol.asyncIterator in value
+  );
+}
+
+/**
+ * Buffers the chunks of a streamed result until they're read, asking the
+ * handler for more as they are.
+ * @internal
+ */
+export function createResultStream<TChunk>(opts: {
+  /**
+   * asks the handler for `count` more chunks
+   */
+  pull: (count: number) => void;
+  /**
+   * stops the handler streaming, when the reader stops early
+   */
+  cancel: () => void;
+}) {
+  const buffer: TChunk[] = [];
+  let result: { ok: true } | { ok: false; error: unknown } | undefined;
+  let waiting:
+    | {
+        resolve: (result: IteratorResult<TChunk, undefined>) => void;
+        reject: (error: unknown) => void;
+      }
+    | undefined;
+  /**
+   * chunks read since the handler was last asked for more
+   */
+  let consumed = 0;
+
+  function onConsumed() {
+    consumed++;
+    // asking for half the window at a time keeps the handler busy, without a
+    // `stream.pull` per chunk
+    if (!result && consumed >= STREAM_WINDOW / 2) {
+      opts.pull(consumed);
+      consumed = 0;
+    }
+  }
+
+  function settle() {
+    if (!waiting || !result) {
+      return;
+    }
+    const { resolve, reject } = waiting;
+    waiting = undefined;
+    if (result.ok) {
+      resolve({ done: true, value: undefined });
+    } else {
+      reject(result.error);
+    }
+  }
+
+  const iterator: AsyncIterableIterator<TChunk> = {
+    [Symbol.asyncIterator]() {
+      return iterator;
+    },
+    next() {
+      if (buffer.length > 0) {
+        onConsumed();
+        return Promise.resolve({ done: false, value: buffer.shift()! });
+      }
+      return new Promise((resolve, reject) => {
+        waiting = { resolve, reject };
+        settle();
+      });
+    },
+    return() {
+      if (!result) {
+        result = { ok: true };
+        opts.cancel();
+      }
+      buffer.length = 0;
+      return Promise.resolve({ done: true, value: undefined });
+    },
+  };
+
+  return {
+    iterator,
+    push(chunk: TChunk) {
+      if (result) {
+        return;
+      }
+      if (waiting) {
+        const { resolve } = waiting;
+        waiting = undefined;
+        onConsumed();
+        resolve({ done: false, value: chunk });
+        return;
+      }
+      buffer.push(chunk);
+    },
+    /**
+     * ends the stream once the buffered chunks have been read
+     */
+    end() {
+      result ??= { ok: true };
+      settle();
+    },
+    /**
+     * fails the stream once the buffered chunks have been read
+     */
+    error(error: unknown) {
+      result ??= { ok: false, error };
+      settle();
+    },
+  };
+}
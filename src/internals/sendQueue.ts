@@ -0,0 +1,136 @@
+import { Frame } from "./framing.js";
+import { DataChannelLike } from "../data-channel-like.js";
+
+/**
+ * What to do with a subscription's data when the send queue is full
+ * - `drop-oldest` discards the subscription's oldest queued data in favor of the new data
+ * - `drop-newest` discards the new data
+ * - `error` ends the subscription with a `TOO_MANY_REQUESTS` error
+ */
+export type BackpressurePolicy = "drop-oldest" | "drop-newest" | "error";
+
+export interface BackpressureOptions {
+  /**
+   * `RTCDataChannel.bufferedAmount`, in bytes, above which sending pauses
+   */
+  highWaterMark?: number;
+  /**
+   * `RTCDataChannel.bufferedAmount`, in bytes, below which sending resumes
+   */
+  lowWaterMark?: number;
+  /**
+   * The number of messages that may wait to be sent before subscription data is
+   * subject to its `BackpressurePolicy`
+   */
+  maxQueueSize?: number;
+}
+
+export const DEFAULT_HIGH_WATER_MARK = 1024 * 1024;
+
+export const DEFAULT_LOW_WATER_MARK = 256 * 1024;
+
+export const DEFAULT_MAX_QUEUE_SIZE = 1000;
+
+type QueuedMessage = {
+  frames: Frame[];
+  /**
+   * Index of the next frame to send
+   */
+  sent: number;
+  key?: number | string;
+};
+
+/**
+ * Sends frames as the data channel's buffer allows, queueing them whilst
+ * `bufferedAmount` is above the high-water mark.
+ * @internal
+ */
+export function createSendQueue(
+  dataChannel: DataChannelLike,
+  opts: BackpressureOptions = {}
+) {
+  const highWaterMark = opts.highWaterMark ?? DEFAULT_HIGH_WATER_MARK;
+  const lowWaterMark = opts.lowWaterMark ?? DEFAULT_LOW_WATER_MARK;
+  const maxQueueSize = opts.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE;
+
+  let queue: QueuedMessage[] = [];
+
+  dataChannel.bufferedAmountLowThreshold = lowWaterMark;
+  dataChannel.addEventListener("bufferedamountlow", flush);
+
+  function flush() {
+    while (queue.length > 0) {
+      if (
+        dataChannel.readyState !== "open" ||
+        dataChannel.bufferedAmount > highWaterMark
+      ) {
+        // resumed by the next `bufferedamountlow` event
+        return;
+      }
+      const message = queue[0];
+      dataChannel.send(message.frames[message.sent]);
+      // only counted once sent, so a frame that fails to send is retried
+      message.sent++;
+      if (message.sent === message.frames.length) {
+        queue.shift();
+      }
+    }
+  }
+
+  return {
+    /**
+     * Queues the frames of a single message to be sent, in order.
+     *
+     * Messages with a `key` (subscription data) are subject to `policy` when the
+     * queue is full, all others are always queued. Returns `false` if the
+     * message was not queued.
+     */
+    enqueue(
+      frames: Frame[],
+      {
+        key,
+        policy,
+      }: { key?: number | string; policy?: BackpressurePolicy } = {}
+    ) {
+      if (key !== undefined && queue.length >= maxQueueSize) {
+        if (policy === "drop-oldest") {
+          // messages that have started sending can't be recalled
+          const oldest = queue.findIndex((m) => m.key === key && m.sent === 0);
+          if (oldest === -1) {
+            return false;
+          }
+          queue.splice(oldest, 1);
+        } else {
+          if (policy === "error") {
+            // there's no point delivering data ahead of the error
+            queue = queue.filter((m) => m.key !== key || m.sent > 0);
+          }
+          return false;
+        }
+      }
+
+      queue.push({ frames, sent: 0, key });
+      flush();
+      return true;
+    },
+    /**
+     * The number of messages waiting to be sent
+     */
+    get size() {
+      return queue.length;
+    },
+    /**
+     * Discards queued messages
+     */
+    clear() {
+      queue = [];
+    },
+    /**
+     * Discards queued messages, and stops listening to the data channel
+     */
+    dispose() {
+      queue = [];
+      dataChannel.removeEventListener("bufferedamountlow", flush);
+    },
+  };
+}
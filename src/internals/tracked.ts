@@ -0,0 +1,29 @@
+/**
+ * Subscription data with an event id, which the client sends back as the
+ * input's `lastEventId` when it re-subscribes, so missed events can be replayed
+ */
+export interface TrackedData<TData> {
+  id: string;
+  data: TData;
+}
+
+/**
+ * data created by `tracked`, rather than any object with an `id` and `data`
+ */
+const trackedData = new WeakSet<object>();
+
+/**
+ * Attaches an event id to subscription data, for clients to resume after
+ */
+export function tracked<TData>(id: string, data: TData): TrackedData<TData> {
+  const value = { id, data };
+  trackedData.add(value);
+  return value;
+}
+
+/**
+ * @internal
+ */
+export function isTrackedData(value: unknown): value is TrackedData<unknown> {
+  return typeof value === "object" && value !== null && trackedData.has(value);
+}
@@ -0,0 +1,170 @@
+import { DEFAULT_MAX_MESSAGE_SIZE } from "./internals/framing.js";
+import { DataChannelLike } from "./data-channel-like.js";
+
+export interface LoopbackDataChannelOptions {
+  /**
+   * Milliseconds each message takes to arrive, or a function that returns it
+   * per message. Defaults to `0`.
+   */
+  latency?: number | (() => number);
+  /**
+   * Probability, from `0` to `1`, that a message is lost. Defaults to `0`.
+   */
+  loss?: number;
+  /**
+   * Probability, from `0` to `1`, that a message is delayed past the messages
+   * sent after it. Defaults to `0`, which delivers messages in order.
+   */
+  reorder?: number;
+  /**
+   * The largest message that may be sent, in bytes. Larger messages throw a
+   * `TypeError`, as they do for an `RTCDataChannel`. Defaults to `65536`.
+   */
+  maxMessageSize?: number;
+  label?: string;
+  /**
+   * Source of randomness for `loss` and `reorder`. Defaults to `Math.random`.
+   */
+  random?: () => number;
+}
+
+const textEncoder = new TextEncoder();
+
+/**
+ * One end of a loopback pair
+ */
+class LoopbackDataChannel extends EventTarget implements DataChannelLike {
+  readyState: RTCDataChannelState = "connecting";
+  binaryType: BinaryType = "blob";
+  bufferedAmount = 0;
+  bufferedAmountLowThreshold = 0;
+  readonly protocol = "";
+  readonly ordered: boolean;
+  remote!: LoopbackDataChannel;
+  /**
+   * when the last in-order message will arrive, which later messages can't precede
+   */
+  private lastArrival = 0;
+  private readonly timers = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(
+    readonly label: string,
+    readonly id: number,
+    private readonly opts: LoopbackDataChannelOptions
+  ) {
+    super();
+    this.ordered = !opts.reorder;
+  }
+
+  send(data: string | ArrayBufferView) {
+    if (this.readyState !== "open") {
+      throw new DOMException("Data channel is not open", "InvalidStateError");
+    }
+    // copied, as the sender may reuse its buffer
+    const payload =
+      typeof data === "string"
+        ? data
+        : data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+    const size =
+      typeof payload === "string"
+        ? textEncoder.encode(payload).byteLength
+        : payload.byteLength;
+    const maxMessageSize = this.opts.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE;
+    if (size > maxMessageSize) {
+      throw new TypeError(
+        `Message of ${size} bytes exceeds the maxMessageSize of ${maxMessageSize} bytes`
+      );
+    }
+
+    const random = this.opts.random ?? Math.random;
+    const latency =
+      typeof this.opts.latency === "function"
+        ? this.opts.latency()
+        : this.opts.latency ?? 0;
+    let arrival = Date.now() + latency;
+    if (this.opts.reorder && random() < this.opts.reorder) {
+      // arrives after the messages sent after it, which aren't held back by it
+      arrival += latency + 1;
+    } else {
+      arrival = Math.max(arrival, this.lastArrival);
+      this.lastArrival = arrival;
+    }
+    const lost = !!this.opts.loss && random() < this.opts.loss;
+
+    this.bufferedAmount += size;
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      this.bufferedAmount -= size;
+      if (!lost) {
+        this.remote.receive(payload);
+      }
+      if (
+        this.bufferedAmount <= this.bufferedAmountLowThreshold &&
+        this.bufferedAmount + size > this.bufferedAmountLowThreshold
+      ) {
+        this.dispatchEvent(new Event("bufferedamountlow"));
+      }
+    }, arrival - Date.now());
+    this.timers.add(timer);
+  }
+
+  close() {
+    if (this.readyState === "closing" || this.readyState === "closed") {
+      return;
+    }
+    this.readyState = "closing";
+    this.remote.readyState = "closing";
+    setTimeout(() => {
+      this.onClose();
+      this.remote.onClose();
+    });
+  }
+
+  open() {
+    this.readyState = "open";
+    this.dispatchEvent(new Event("open"));
+  }
+
+  private receive(payload: string | ArrayBuffer) {
+    if (this.readyState !== "open") {
+      return;
+    }
+    const data =
+      typeof payload === "string" || this.binaryType === "arraybuffer"
+        ? payload
+        : new Blob([payload]);
+    this.dispatchEvent(new MessageEvent("message", { data }));
+  }
+
+  private onClose() {
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.bufferedAmount = 0;
+    this.readyState = "closed";
+    this.dispatchEvent(new Event("close"));
+  }
+}
+
+let nextId = 0;
+
+/**
+ * Creates two data channels connected to each other in memory, for testing
+ * routers without an `RTCPeerConnection`. Both open in the next tick.
+ */
+export function createLoopbackDataChannelPair(
+  opts: LoopbackDataChannelOptions = {}
+): [DataChannelLike, DataChannelLike] {
+  const label = opts.label ?? "loopback";
+  const id = nextId++;
+  const a = new LoopbackDataChannel(label, id, opts);
+  const b = new LoopbackDataChannel(label, id, opts);
+  a.remote = b;
+  b.remote = a;
+  setTimeout(() => {
+    a.open();
+    b.open();
+  });
+  return [a, b];
+}